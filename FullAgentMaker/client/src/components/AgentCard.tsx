@@ -1,7 +1,8 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { Clock, CheckCircle, AlertCircle, Loader2 } from "lucide-react";
+import { Clock, CheckCircle, AlertCircle, Loader2, RotateCcw } from "lucide-react";
 
 export type AgentStatus = "pending" | "running" | "completed" | "error";
 
@@ -13,6 +14,7 @@ export interface AgentCardProps {
   duration?: string;
   dependencies?: string[];
   error?: string;
+  onRerun?: () => void;
 }
 
 const statusConfig = {
@@ -45,7 +47,8 @@ export default function AgentCard({
   progress = 0,
   duration,
   dependencies = [],
-  error
+  error,
+  onRerun
 }: AgentCardProps) {
   const config = statusConfig[status];
   const Icon = config.icon;
@@ -103,6 +106,18 @@ export default function AgentCard({
             <p className="text-xs text-destructive">{error}</p>
           </div>
         )}
+
+        {onRerun && (status === "completed" || status === "error") && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onRerun}
+            data-testid="button-rerun-agent"
+          >
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Rerun with dependents
+          </Button>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle, MessageSquareWarning, ShieldCheck } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface ApprovalsResponse {
+  pending: Array<{ agent: string; output: any }>;
+}
+
+export interface ApprovalGateProps {
+  projectId: string;
+}
+
+// Review step for agents the project gates on approval; renders nothing while none is waiting
+export default function ApprovalGate({ projectId }: ApprovalGateProps) {
+  const { toast } = useToast();
+  const { data } = useQuery<ApprovalsResponse>({
+    queryKey: ["/api/projects", projectId, "approvals"]
+  });
+  const current = data?.pending[0];
+
+  const [output, setOutput] = useState("");
+  const [feedback, setFeedback] = useState("");
+
+  useEffect(() => {
+    setOutput(current ? JSON.stringify(current.output, null, 2) : "");
+    setFeedback("");
+  }, [current?.agent, current?.output]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: async (agent: string) => {
+      await apiRequest("POST", `/api/projects/${projectId}/approve`, { agent });
+    },
+    onSuccess: (_data, agent) => {
+      refresh();
+      toast({ title: `${agent} approved`, description: "The pipeline continues with the next agents." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to approve", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async (agent: string) => {
+      const edited = output.trim() === JSON.stringify(current?.output, null, 2) ? undefined : JSON.parse(output);
+      await apiRequest("POST", `/api/projects/${projectId}/reject`, {
+        agent,
+        feedback: feedback.trim() || undefined,
+        output: edited
+      });
+    },
+    onSuccess: (_data, agent) => {
+      refresh();
+      toast({
+        title: feedback.trim() ? `${agent} will revise its output` : `${agent} output updated`,
+        description: feedback.trim() ? "The agent reruns with your feedback." : "Your edits were applied and approved."
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to reject", description: error.message, variant: "destructive" });
+    }
+  });
+
+  if (!current) {
+    return null;
+  }
+
+  const pending = approveMutation.isPending || rejectMutation.isPending;
+
+  return (
+    <Card className="border-primary" data-testid="approval-gate">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Review {current.agent} output
+          {data!.pending.length > 1 && (
+            <Badge variant="outline" className="ml-auto">{data!.pending.length} waiting</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="approval-output">Output (edit to change what later agents receive)</Label>
+          <Textarea
+            id="approval-output"
+            value={output}
+            onChange={(e) => setOutput(e.target.value)}
+            className="font-mono text-xs min-h-[240px]"
+            data-testid="textarea-approval-output"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="approval-feedback">Feedback for a rerun (optional)</Label>
+          <Textarea
+            id="approval-feedback"
+            placeholder="What should the agent change?"
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value)}
+            data-testid="textarea-approval-feedback"
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={() => rejectMutation.mutate(current.agent)}
+            disabled={pending || (!feedback.trim() && output.trim() === JSON.stringify(current.output, null, 2))}
+            data-testid="button-reject"
+          >
+            <MessageSquareWarning className="h-4 w-4 mr-2" />
+            {feedback.trim() ? "Request changes" : "Apply edits"}
+          </Button>
+          <Button
+            onClick={() => approveMutation.mutate(current.agent)}
+            disabled={pending}
+            data-testid="button-approve"
+          >
+            <CheckCircle className="h-4 w-4 mr-2" />
+            Approve
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
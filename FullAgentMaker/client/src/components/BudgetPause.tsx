@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Play, Wallet } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ProjectBudget } from "@shared/schema";
+
+export interface BudgetPauseProps {
+  projectId: string;
+  // Why the run paused itself, as the server recorded it
+  reason: string;
+  budget?: ProjectBudget;
+  onResume?: () => void;
+}
+
+// Shown while a run is paused on its budget: raise the limits, then resume in one step
+export default function BudgetPause({ projectId, reason, budget, onResume }: BudgetPauseProps) {
+  const { toast } = useToast();
+  const [maxCostUsd, setMaxCostUsd] = useState("");
+  const [maxTokens, setMaxTokens] = useState("");
+
+  useEffect(() => {
+    setMaxCostUsd(budget?.maxCostUsd !== undefined ? String(budget.maxCostUsd) : "");
+    setMaxTokens(budget?.maxTokens !== undefined ? String(budget.maxTokens) : "");
+  }, [budget?.maxCostUsd, budget?.maxTokens]);
+
+  const costValid = /^(\d+(\.\d+)?)?$/.test(maxCostUsd.trim()) && (maxCostUsd.trim() === "" || parseFloat(maxCostUsd) > 0);
+  const tokensValid = /^\d*$/.test(maxTokens.trim()) && (maxTokens.trim() === "" || parseInt(maxTokens, 10) > 0);
+
+  const raiseMutation = useMutation({
+    mutationFn: async () => {
+      // The new budget replaces the old one; a limit left empty is lifted
+      await apiRequest("PATCH", `/api/projects/${projectId}/budget`, {
+        maxCostUsd: maxCostUsd.trim() ? parseFloat(maxCostUsd) : undefined,
+        maxTokens: maxTokens.trim() ? parseInt(maxTokens, 10) : undefined
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+      onResume?.();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update budget", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Card className="border-destructive" data-testid="budget-pause">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Paused: budget reached
+        </CardTitle>
+        <p className="text-sm text-muted-foreground" data-testid="text-pause-reason">{reason}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="budget-cost">Budget (USD, empty for no limit)</Label>
+            <Input
+              id="budget-cost"
+              inputMode="decimal"
+              placeholder="e.g. 5.00"
+              value={maxCostUsd}
+              onChange={(e) => setMaxCostUsd(e.target.value)}
+              data-testid="input-budget-cost"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="budget-tokens">Token limit (empty for no limit)</Label>
+            <Input
+              id="budget-tokens"
+              inputMode="numeric"
+              placeholder="e.g. 500000"
+              value={maxTokens}
+              onChange={(e) => setMaxTokens(e.target.value)}
+              data-testid="input-budget-tokens"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button
+            onClick={() => raiseMutation.mutate()}
+            disabled={raiseMutation.isPending || !costValid || !tokensValid}
+            data-testid="button-raise-budget"
+          >
+            <Play className="h-4 w-4 mr-2" />
+            Raise budget and resume
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
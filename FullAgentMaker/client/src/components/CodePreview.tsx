@@ -127,9 +127,11 @@ export default function CodePreview({
     ));
   };
 
+  const flattenFiles = (nodes: FileNode[]): FileNode[] =>
+    nodes.flatMap(f => f.type === 'folder' ? flattenFiles(f.children || []) : [f]);
+
   const selectedFileNode = selectedFile ? 
-    files.flatMap(f => f.type === 'folder' ? f.children || [] : [f])
-         .find(f => f.path === selectedFile) : null;
+    flattenFiles(files).find(f => f.path === selectedFile) : null;
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 h-full">
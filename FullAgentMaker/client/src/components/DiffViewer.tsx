@@ -0,0 +1,98 @@
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { DiffLine } from "@shared/schema";
+
+export interface DiffViewerProps {
+  lines: DiffLine[];
+  fromLabel: string;
+  toLabel: string;
+}
+
+interface DiffRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Pairs each run of removed lines with the added lines that follow it, so replacements sit side by side
+function toRows(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === "removed") {
+      if (added.length > 0) {
+        flush();
+      }
+      removed.push(line);
+    } else if (line.type === "added") {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+  return rows;
+}
+
+function Cell({ line, number }: { line?: DiffLine; number?: number }) {
+  const tone = line?.type === "removed"
+    ? "bg-destructive/10"
+    : line?.type === "added"
+      ? "bg-primary/10"
+      : line ? "" : "bg-muted/40";
+  return (
+    <>
+      <td className={`w-10 select-none px-2 text-right text-muted-foreground ${tone}`}>{number}</td>
+      <td className={`whitespace-pre-wrap break-all px-2 ${tone}`}>
+        {line && line.type !== "context" && (
+          <span className="select-none text-muted-foreground">{line.type === "added" ? "+" : "-"}</span>
+        )}
+        {line?.text}
+      </td>
+    </>
+  );
+}
+
+export default function DiffViewer({ lines, fromLabel, toLabel }: DiffViewerProps) {
+  const rows = toRows(lines);
+
+  if (!lines.some(line => line.type !== "context")) {
+    return (
+      <div className="p-4 text-center text-sm text-muted-foreground" data-testid="diff-empty">
+        No changes between {fromLabel} and {toLabel}
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-96" data-testid="diff-viewer">
+      <table className="w-full table-fixed border-collapse font-mono text-xs">
+        <thead>
+          <tr className="border-b text-left text-muted-foreground">
+            <th className="w-10" />
+            <th className="px-2 py-1 font-medium">{fromLabel}</th>
+            <th className="w-10" />
+            <th className="px-2 py-1 font-medium">{toLabel}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index} className="align-top">
+              <Cell line={row.left} number={row.left?.oldLine} />
+              <Cell line={row.right} number={row.right?.newLine} />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </ScrollArea>
+  );
+}
@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GitCompare } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import DiffViewer from "@/components/DiffViewer";
+import type { DiffLine } from "@shared/schema";
+
+interface RunsResponse {
+  runs: Array<{ number: number; status: string; startedAt: string; finishedAt: string; fileCount: number }>;
+}
+
+interface RunsDiffResponse {
+  from: number;
+  to: number;
+  added: Array<{ path: string; revision: number }>;
+  removed: Array<{ path: string; revision: number }>;
+  modified: Array<{ path: string; fromRevision: number; toRevision: number }>;
+}
+
+interface RevisionsResponse {
+  revisions: Array<{ revision: number; agentName: string | null; createdAt: string }>;
+}
+
+interface FileDiffResponse {
+  from: number;
+  to: number;
+  lines: DiffLine[];
+}
+
+// One file between two of its revisions; 0 stands for the file not existing
+interface Comparison {
+  path: string;
+  from: number;
+  to: number;
+}
+
+export interface FileChangesProps {
+  projectId: string;
+  selectedFile?: string; // the file open in the code preview, shown with its latest change
+}
+
+const runLabel = (number: number) => number === 0 ? "Empty project" : `Run #${number}`;
+const revisionLabel = (revision: number) => revision === 0 ? "(none)" : `r${revision}`;
+
+// What changed between two runs, and a side-by-side diff of any file across its revisions
+export default function FileChanges({ projectId, selectedFile }: FileChangesProps) {
+  const [fromRun, setFromRun] = useState<number>();
+  const [toRun, setToRun] = useState<number>();
+  const [comparison, setComparison] = useState<Comparison>();
+
+  const { data: runsData } = useQuery<RunsResponse>({
+    queryKey: ["/api/projects", projectId, "runs"]
+  });
+  const runs = runsData?.runs || [];
+
+  const runParams = new URLSearchParams();
+  if (fromRun !== undefined) runParams.set("from", String(fromRun));
+  if (toRun !== undefined) runParams.set("to", String(toRun));
+  const { data: runsDiff } = useQuery<RunsDiffResponse>({
+    queryKey: ["/api/projects", projectId, `runs/diff?${runParams}`],
+    enabled: runs.length > 0
+  });
+
+  const path = comparison?.path || selectedFile;
+  const { data: revisionsData } = useQuery<RevisionsResponse>({
+    queryKey: ["/api/projects", projectId, `files/revisions?${new URLSearchParams({ path: path || "" })}`],
+    enabled: !!path
+  });
+
+  const fileParams = new URLSearchParams({ path: path || "" });
+  if (comparison) {
+    fileParams.set("from", String(comparison.from));
+    fileParams.set("to", String(comparison.to));
+  }
+  const { data: fileDiff } = useQuery<FileDiffResponse>({
+    queryKey: ["/api/projects", projectId, `files/diff?${fileParams}`],
+    enabled: !!path && (revisionsData?.revisions.length || 0) > 0
+  });
+
+  // Opening another file in the preview replaces whatever comparison was picked here
+  useEffect(() => {
+    setComparison(undefined);
+  }, [selectedFile]);
+
+  const compareRevision = (revision: number) => {
+    if (path) {
+      setComparison({ path, from: revision - 1, to: revision });
+    }
+  };
+
+  return (
+    <Card data-testid="file-changes">
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <GitCompare className="h-5 w-5" />
+            Changes
+          </CardTitle>
+          {runsDiff && (
+            <div className="flex items-center gap-2 text-sm">
+              <Select value={String(runsDiff.from)} onValueChange={value => setFromRun(Number(value))}>
+                <SelectTrigger className="w-36" data-testid="select-from-run">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="0">{runLabel(0)}</SelectItem>
+                  {runs.map(run => (
+                    <SelectItem key={run.number} value={String(run.number)}>{runLabel(run.number)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-muted-foreground">→</span>
+              <Select value={String(runsDiff.to)} onValueChange={value => setToRun(Number(value))}>
+                <SelectTrigger className="w-36" data-testid="select-to-run">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {runs.map(run => (
+                    <SelectItem key={run.number} value={String(run.number)}>
+                      {runLabel(run.number)} · {run.status}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {runs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No finished runs yet</p>
+        ) : runsDiff && (
+          <div className="space-y-1" data-testid="run-changes">
+            {runsDiff.added.length + runsDiff.removed.length + runsDiff.modified.length === 0 && (
+              <p className="text-sm text-muted-foreground">No files changed between these runs</p>
+            )}
+            {runsDiff.added.map(file => (
+              <ChangedFile key={file.path} path={file.path} kind="added"
+                onSelect={() => setComparison({ path: file.path, from: 0, to: file.revision })} />
+            ))}
+            {runsDiff.modified.map(file => (
+              <ChangedFile key={file.path} path={file.path} kind="modified"
+                onSelect={() => setComparison({ path: file.path, from: file.fromRevision, to: file.toRevision })} />
+            ))}
+            {runsDiff.removed.map(file => (
+              <ChangedFile key={file.path} path={file.path} kind="removed"
+                onSelect={() => setComparison({ path: file.path, from: file.revision, to: 0 })} />
+            ))}
+          </div>
+        )}
+
+        {path && fileDiff && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="font-mono text-sm" data-testid="text-diff-path">{path}</span>
+              {revisionsData && revisionsData.revisions.length > 0 && (
+                <Select
+                  value={fileDiff.from === fileDiff.to - 1 ? String(fileDiff.to) : ""}
+                  onValueChange={value => compareRevision(Number(value))}
+                >
+                  <SelectTrigger className="w-56" data-testid="select-revision">
+                    <SelectValue placeholder="Compare a revision" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisionsData.revisions.map(revision => (
+                      <SelectItem key={revision.revision} value={String(revision.revision)}>
+                        {revisionLabel(revision.revision)} · {revision.agentName || "manual edit"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            <DiffViewer
+              lines={fileDiff.lines}
+              fromLabel={revisionLabel(fileDiff.from)}
+              toLabel={revisionLabel(fileDiff.to)}
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ChangedFile({ path, kind, onSelect }: { path: string; kind: "added" | "removed" | "modified"; onSelect: () => void }) {
+  const variant = kind === "removed" ? "destructive" : kind === "added" ? "default" : "secondary";
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="w-full justify-start gap-2 font-mono"
+      onClick={onSelect}
+      data-testid={`button-changed-file-${path}`}
+    >
+      <Badge variant={variant} className="w-20 justify-center text-xs">{kind}</Badge>
+      {path}
+    </Button>
+  );
+}
@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Route, Save } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { AgentRouting, ModelRoute } from "@shared/schema";
+
+interface AgentsResponse {
+  agents: Array<{ name: string; description: string; routing: AgentRouting }>;
+  defaultRouting: AgentRouting;
+}
+
+type TaskType = "text" | "structured";
+
+const toNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+function RouteFields({
+  label,
+  route,
+  onChange,
+  testId
+}: {
+  label: string;
+  route: ModelRoute | undefined;
+  onChange: (route: ModelRoute) => void;
+  testId: string;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <div className="grid grid-cols-3 gap-2">
+        <Input
+          placeholder="Provider default"
+          value={route?.model || ""}
+          onChange={(e) => onChange({ ...route, model: e.target.value || undefined })}
+          data-testid={`input-${testId}-model`}
+        />
+        <Input
+          type="number"
+          step="0.1"
+          min="0"
+          max="2"
+          placeholder="Temperature"
+          value={route?.temperature ?? ""}
+          onChange={(e) => onChange({ ...route, temperature: toNumber(e.target.value) })}
+          data-testid={`input-${testId}-temperature`}
+        />
+        <Input
+          type="number"
+          min="1"
+          placeholder="Max tokens"
+          value={route?.maxOutputTokens ?? ""}
+          onChange={(e) => onChange({ ...route, maxOutputTokens: toNumber(e.target.value) })}
+          data-testid={`input-${testId}-max-tokens`}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default function ModelRouting() {
+  const { toast } = useToast();
+  const { data } = useQuery<AgentsResponse>({ queryKey: ["/api/agents"] });
+  const [drafts, setDrafts] = useState<Record<string, AgentRouting>>({});
+
+  useEffect(() => {
+    if (!data) return;
+    setDrafts({
+      default: data.defaultRouting,
+      ...Object.fromEntries(data.agents.map(agent => [agent.name, agent.routing]))
+    });
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (agentName: string) => {
+      await apiRequest("PUT", `/api/agents/${agentName}/routing`, drafts[agentName] || {});
+    },
+    onSuccess: (_data, agentName) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agents"] });
+      toast({ title: "Routing saved", description: `${agentName} will use the new models on its next run.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save routing", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const updateDraft = (agentName: string, task: TaskType, route: ModelRoute) => {
+    setDrafts(prev => ({ ...prev, [agentName]: { ...prev[agentName], [task]: route } }));
+  };
+
+  const rows = ["default", ...(data?.agents.map(agent => agent.name) || [])];
+
+  return (
+    <Card data-testid="model-routing">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Route className="h-5 w-5" />
+          Model Routing
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {rows.map(agentName => (
+          <div key={agentName} className="space-y-3" data-testid={`routing-${agentName.toLowerCase()}`}>
+            <div className="flex items-center justify-between">
+              <span className="font-medium capitalize">{agentName === "default" ? "All agents" : agentName}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => saveMutation.mutate(agentName)}
+                disabled={saveMutation.isPending}
+                data-testid={`button-save-routing-${agentName.toLowerCase()}`}
+              >
+                <Save className="h-3 w-3 mr-1" />
+                Save
+              </Button>
+            </div>
+            <RouteFields
+              label="Free-form generation"
+              route={drafts[agentName]?.text}
+              onChange={(route) => updateDraft(agentName, "text", route)}
+              testId={`${agentName.toLowerCase()}-text`}
+            />
+            <RouteFields
+              label="Structured (JSON) generation"
+              route={drafts[agentName]?.structured}
+              onChange={(route) => updateDraft(agentName, "structured", route)}
+              testId={`${agentName.toLowerCase()}-structured`}
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,36 +7,72 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertProjectSchema, type InsertProject } from "@shared/schema";
-import { ArrowRight, Sparkles } from "lucide-react";
-import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import type { Project } from "@shared/schema";
+import { ArrowRight, Sparkles, KeyRound } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
+const projectSetupSchema = z.object({
+  name: z.string().min(1, "Project name is required"),
+  description: z.string().min(1, "Project description is required"),
+  stack: z.string(),
+  database: z.string(),
+  features: z.array(z.string()),
+  apiKey: z.string().min(1, "Your Gemini API key is required"),
+  maxCostUsd: z.string().regex(/^(\d+(\.\d+)?)?$/, "Enter a dollar amount, e.g. 2.50"),
+  bypassCache: z.boolean(),
+  pipeline: z.string(),
+  approvals: z.array(z.string())
+});
+
+export type ProjectSetupValues = z.infer<typeof projectSetupSchema>;
+
 export interface ProjectSetupProps {
-  onProjectCreated: (projectId: string) => void;
+  onProjectCreated: (project: Project) => void;
 }
 
 export default function ProjectSetup({ onProjectCreated }: ProjectSetupProps) {
   const { toast } = useToast();
 
-  const form = useForm<InsertProject>({
-    resolver: zodResolver(insertProjectSchema),
+  const form = useForm<ProjectSetupValues>({
+    resolver: zodResolver(projectSetupSchema),
     defaultValues: {
       name: "",
       description: "",
       stack: "react",
       database: "none",
-      features: []
+      features: [],
+      apiKey: "",
+      maxCostUsd: "",
+      bypassCache: false,
+      pipeline: "auto",
+      approvals: []
     }
   });
 
   const createProjectMutation = useMutation({
-    mutationFn: async (data: InsertProject) => {
-      const response = await apiRequest("/api/projects", {
-        method: "POST",
-        body: data
+    mutationFn: async ({ apiKey, ...data }: ProjectSetupValues) => {
+      // The key is sent beside the project so the server never stores it in the config
+      const res = await apiRequest("POST", "/api/projects", {
+        name: data.name,
+        description: data.description,
+        config: {
+          projectName: data.name,
+          description: data.description,
+          stack: data.stack,
+          database: data.database,
+          features: data.features,
+          budget: data.maxCostUsd ? { maxCostUsd: parseFloat(data.maxCostUsd) } : undefined,
+          llm: data.bypassCache ? { bypassCache: true } : undefined,
+          // Left out, the server picks the pipeline from the stack, database and features
+          pipeline: data.pipeline !== "auto" ? data.pipeline : undefined,
+          approvals: data.approvals.length > 0 ? data.approvals : undefined
+        },
+        apiKey
       });
+      const response = await res.json();
       if (!response.success) {
         throw new Error(response.error || "Failed to create project");
       }
@@ -47,7 +83,7 @@ export default function ProjectSetup({ onProjectCreated }: ProjectSetupProps) {
         title: "Project created successfully",
         description: `Your project "${response.project.name}" has been created.`
       });
-      onProjectCreated(response.project.id);
+      onProjectCreated(response.project);
     },
     onError: (error: Error) => {
       toast({
@@ -58,7 +94,7 @@ export default function ProjectSetup({ onProjectCreated }: ProjectSetupProps) {
     }
   });
 
-  const handleSubmit = (data: InsertProject) => {
+  const handleSubmit = (data: ProjectSetupValues) => {
     createProjectMutation.mutate(data);
   };
 
@@ -70,6 +106,16 @@ export default function ProjectSetup({ onProjectCreated }: ProjectSetupProps) {
     { id: "mobile", label: "Mobile Responsive" }
   ];
 
+  const { data: pipelinesData } = useQuery<{ pipelines: Array<{ name: string; description: string; agents: string[] }> }>({
+    queryKey: ["/api/pipelines"]
+  });
+  const selectedPipeline = pipelinesData?.pipelines.find(pipeline => pipeline.name === form.watch("pipeline"));
+
+  // Agents whose output can be held for review before the next agents run, plugins included
+  const { data: agentsData } = useQuery<{ agents: Array<{ name: string }> }>({ queryKey: ["/api/agents"] });
+  const reviewableAgents = (agentsData?.agents.map(agent => agent.name) || [])
+    .filter(agent => !selectedPipeline || selectedPipeline.agents.includes(agent));
+
   return (
     <Card className="w-full max-w-2xl mx-auto" data-testid="card-project-setup">
       <CardHeader>
@@ -171,6 +217,37 @@ export default function ProjectSetup({ onProjectCreated }: ProjectSetupProps) {
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="pipeline"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Pipeline</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-pipeline">
+                        <SelectValue placeholder="Select pipeline" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="auto">Based on the stack, database and features</SelectItem>
+                      {(pipelinesData?.pipelines || []).map(pipeline => (
+                        <SelectItem key={pipeline.name} value={pipeline.name}>
+                          {pipeline.description}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedPipeline && (
+                    <p className="text-xs text-muted-foreground" data-testid="text-pipeline-agents">
+                      {selectedPipeline.agents.join(" → ")}
+                    </p>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="features"
@@ -199,7 +276,7 @@ export default function ProjectSetup({ onProjectCreated }: ProjectSetupProps) {
                                       ? field.onChange([...field.value || [], feature.id])
                                       : field.onChange(
                                           field.value?.filter(
-                                            (value) => value !== feature.id
+                                            (value: string) => value !== feature.id
                                           )
                                         )
                                   }}
@@ -220,6 +297,94 @@ export default function ProjectSetup({ onProjectCreated }: ProjectSetupProps) {
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="approvals"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base">Require approval after</FormLabel>
+                  <div className="flex flex-wrap gap-4">
+                    {reviewableAgents.map((agent) => (
+                      <div key={agent} className="flex items-center space-x-2">
+                        <Checkbox
+                          checked={field.value.includes(agent)}
+                          onCheckedChange={(checked) => field.onChange(
+                            checked
+                              ? [...field.value, agent]
+                              : field.value.filter((value: string) => value !== agent)
+                          )}
+                          data-testid={`checkbox-approval-${agent.toLowerCase()}`}
+                        />
+                        <span className="text-sm">{agent}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="apiKey"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="flex items-center gap-2">
+                    <KeyRound className="w-4 h-4" />
+                    Gemini API Key
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="password"
+                      autoComplete="off"
+                      placeholder="Used only for this generation, never stored"
+                      {...field}
+                      data-testid="input-api-key"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="maxCostUsd"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Budget (USD, optional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      inputMode="decimal"
+                      placeholder="No limit"
+                      {...field}
+                      data-testid="input-max-cost"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="bypassCache"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                      data-testid="checkbox-bypass-cache"
+                    />
+                  </FormControl>
+                  <FormLabel className="text-sm font-normal">
+                    Bypass response cache (always call the model)
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
+
             <Button 
               type="submit" 
               className="w-full" 
@@ -0,0 +1,84 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Coins } from "lucide-react";
+import type { AgentUsage } from "@shared/schema";
+
+export interface UsageSummaryProps {
+  agents: Record<string, AgentUsage>;
+  total: AgentUsage;
+}
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+const formatCost = (cost: number) => `$${cost.toFixed(cost < 0.01 ? 4 : 2)}`;
+const formatLatency = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export default function UsageSummary({ agents, total }: UsageSummaryProps) {
+  const rows = Object.entries(agents);
+
+  return (
+    <Card data-testid="usage-summary">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Coins className="h-5 w-5" />
+            Usage & Cost
+          </CardTitle>
+          <Badge variant="outline" className="text-xs" data-testid="usage-total-cost">
+            {formatCost(total.costUsd)}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No model calls yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Agent</TableHead>
+                <TableHead>Model</TableHead>
+                <TableHead className="text-right">Calls</TableHead>
+                <TableHead className="text-right">Prompt</TableHead>
+                <TableHead className="text-right">Completion</TableHead>
+                <TableHead className="text-right">Latency</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(([agent, usage]) => (
+                <TableRow key={agent} data-testid={`usage-row-${agent.toLowerCase()}`}>
+                  <TableCell className="font-medium">{agent}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{usage.models.join(", ")}</TableCell>
+                  <TableCell className="text-right">{usage.calls}</TableCell>
+                  <TableCell className="text-right">{formatTokens(usage.promptTokens)}</TableCell>
+                  <TableCell className="text-right">{formatTokens(usage.completionTokens)}</TableCell>
+                  <TableCell className="text-right">{formatLatency(usage.latencyMs)}</TableCell>
+                  <TableCell className="text-right">{formatCost(usage.costUsd)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={2}>Total</TableCell>
+                <TableCell className="text-right">{total.calls}</TableCell>
+                <TableCell className="text-right">{formatTokens(total.promptTokens)}</TableCell>
+                <TableCell className="text-right">{formatTokens(total.completionTokens)}</TableCell>
+                <TableCell className="text-right">{formatLatency(total.latencyMs)}</TableCell>
+                <TableCell className="text-right">{formatCost(total.costUsd)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,6 +9,7 @@ export default function AgentCardExample() {
         status="completed"
         duration="2.3s"
         dependencies={[]}
+        onRerun={() => console.log('Rerun Requirement Agent')}
       />
       
       <AgentCard
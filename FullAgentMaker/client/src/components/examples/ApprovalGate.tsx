@@ -0,0 +1,9 @@
+import ApprovalGate from '../ApprovalGate';
+
+export default function ApprovalGateExample() {
+  return (
+    <div className="max-w-3xl p-6 bg-background">
+      <ApprovalGate projectId="example-project" />
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import DiffViewer from '../DiffViewer';
+
+export default function DiffViewerExample() {
+  //todo: remove mock functionality
+  const lines = [
+    { type: "context" as const, oldLine: 1, newLine: 1, text: "export default function Button({ onClick }: ButtonProps) {" },
+    { type: "removed" as const, oldLine: 2, text: "  return <button onClick={onClick}>{children}</button>;" },
+    { type: "added" as const, newLine: 2, text: "  return (" },
+    { type: "added" as const, newLine: 3, text: "    <button type=\"button\" onClick={onClick}>" },
+    { type: "added" as const, newLine: 4, text: "      {children}" },
+    { type: "added" as const, newLine: 5, text: "    </button>" },
+    { type: "added" as const, newLine: 6, text: "  );" },
+    { type: "context" as const, oldLine: 3, newLine: 7, text: "}" }
+  ];
+
+  return (
+    <div className="max-w-4xl p-6 bg-background">
+      <DiffViewer lines={lines} fromLabel="r1" toLabel="r2" />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import FileChanges from '../FileChanges';
+
+export default function FileChangesExample() {
+  return (
+    <div className="max-w-4xl p-6 bg-background">
+      <FileChanges projectId="example-project" selectedFile="/src/App.tsx" />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import ModelRouting from '../ModelRouting';
+
+export default function ModelRoutingExample() {
+  return (
+    <div className="max-w-3xl p-6 bg-background">
+      <ModelRouting />
+    </div>
+  );
+}
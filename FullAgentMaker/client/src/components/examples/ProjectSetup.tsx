@@ -1,13 +1,13 @@
 import ProjectSetup from '../ProjectSetup';
 
 export default function ProjectSetupExample() {
-  const handleStart = (config: any) => {
-    console.log('Project started with config:', config);
+  const handleCreated = (project: any) => {
+    console.log('Project created:', project);
   };
 
   return (
     <div className="p-6 bg-background">
-      <ProjectSetup onStart={handleStart} />
+      <ProjectSetup onProjectCreated={handleCreated} />
     </div>
   );
 }
\ No newline at end of file
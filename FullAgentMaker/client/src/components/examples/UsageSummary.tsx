@@ -0,0 +1,41 @@
+import UsageSummary from '../UsageSummary';
+
+export default function UsageSummaryExample() {
+  //todo: remove mock functionality
+  const agents = {
+    Requirement: {
+      calls: 1,
+      promptTokens: 412,
+      completionTokens: 1830,
+      totalTokens: 2242,
+      costUsd: 0.0047,
+      latencyMs: 6200,
+      models: ["gemini-2.5-flash"]
+    },
+    Frontend: {
+      calls: 1,
+      promptTokens: 2210,
+      completionTokens: 7420,
+      totalTokens: 9630,
+      costUsd: 0.0192,
+      latencyMs: 31800,
+      models: ["gemini-2.5-flash"]
+    }
+  };
+
+  const total = {
+    calls: 2,
+    promptTokens: 2622,
+    completionTokens: 9250,
+    totalTokens: 11872,
+    costUsd: 0.0239,
+    latencyMs: 38000,
+    models: ["gemini-2.5-flash"]
+  };
+
+  return (
+    <div className="max-w-3xl">
+      <UsageSummary agents={agents} total={total} />
+    </div>
+  );
+}
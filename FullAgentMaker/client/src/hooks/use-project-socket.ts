@@ -0,0 +1,32 @@
+import { useEffect, useRef } from "react";
+
+export interface ProjectSocketMessage {
+  type: string;
+  data: any;
+}
+
+// Subscribes to the server's real-time events for one project
+export function useProjectSocket(
+  projectId: string | undefined,
+  onMessage: (message: ProjectSocketMessage) => void
+) {
+  const handlerRef = useRef(onMessage);
+  handlerRef.current = onMessage;
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const ws = new WebSocket(`${protocol}//${window.location.host}/ws?projectId=${encodeURIComponent(projectId)}`);
+
+    ws.onmessage = (event) => {
+      try {
+        handlerRef.current(JSON.parse(event.data));
+      } catch (err) {
+        console.error("Invalid socket message:", err);
+      }
+    };
+
+    return () => ws.close();
+  }, [projectId]);
+}
@@ -0,0 +1,75 @@
+import type { FileNode } from "@/components/CodePreview";
+
+export interface FlatFile {
+  path: string;
+  content: string;
+  size?: number;
+  language?: string | null;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+// Pulls files out of a partially streamed agent response; the last block may still be open
+export function parseStreamedFiles(agent: string, text: string): FlatFile[] {
+  const files: FlatFile[] = [];
+  const blockRegex = /```([^\n]*)\n([\s\S]*?)(?:```|$)/g;
+
+  let match;
+  while ((match = blockRegex.exec(text)) !== null) {
+    const filename = match[1].match(/([\w./-]+\.[a-zA-Z]+)/)?.[1];
+    if (!filename) continue;
+
+    files.push({
+      path: streamedPath(agent, filename),
+      content: match[2]
+    });
+  }
+
+  return files;
+}
+
+// Mirrors where each agent stores its files on the server
+function streamedPath(agent: string, filename: string): string {
+  if (filename.startsWith("/")) return filename;
+  if (agent === "Frontend") return `/src/${filename}`;
+  if (agent === "Backend") return `/server/${filename}`;
+  return `/${filename}`;
+}
+
+export function buildFileTree(files: FlatFile[]): FileNode[] {
+  const root: FileNode[] = [];
+
+  for (const file of files) {
+    const parts = file.path.split("/").filter(Boolean);
+    let level = root;
+
+    parts.forEach((part, index) => {
+      const path = "/" + parts.slice(0, index + 1).join("/");
+      const isFile = index === parts.length - 1;
+      let node = level.find(n => n.path === path);
+
+      if (!node) {
+        node = isFile
+          ? {
+              name: part,
+              type: "file",
+              path,
+              content: file.content,
+              language: file.language || undefined,
+              size: formatSize(file.size ?? file.content.length)
+            }
+          : { name: part, type: "folder", path, children: [] };
+        level.push(node);
+      } else if (isFile) {
+        // Later revisions of the same path win
+        node.content = file.content;
+        node.size = formatSize(file.size ?? file.content.length);
+      }
+
+      if (!isFile) level = node.children!;
+    });
+  }
+
+  return root;
+}
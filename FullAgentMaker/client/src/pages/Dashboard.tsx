@@ -6,17 +6,34 @@ import AgentCard from "@/components/AgentCard";
 import ProgressPipeline from "@/components/ProgressPipeline";
 import LogViewer from "@/components/LogViewer";
 import CodePreview from "@/components/CodePreview";
+import FileChanges from "@/components/FileChanges";
+import UsageSummary from "@/components/UsageSummary";
+import ModelRouting from "@/components/ModelRouting";
+import ApprovalGate from "@/components/ApprovalGate";
+import BudgetPause from "@/components/BudgetPause";
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useProjectSocket } from "@/hooks/use-project-socket";
+import { buildFileTree, parseStreamedFiles } from "@/lib/projectFiles";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
 import { Play, Pause, Square, RotateCcw, Download } from "lucide-react";
 import type { AgentStatus } from "@/components/AgentCard";
 import type { PipelineStep } from "@/components/ProgressPipeline";
 import type { LogEntry } from "@/components/LogViewer";
-import type { FileNode } from "@/components/CodePreview";
+import type { AgentState, AgentUsage, Project, ProjectFile } from "@shared/schema";
 
 export interface ProjectStatus {
   id: string;
   name: string;
-  status: "running" | "paused" | "completed" | "error";
+  status: "queued" | "running" | "paused" | "stopped" | "awaiting-approval" | "completed" | "error";
   startTime: string;
   agents: Array<{
     name: string;
@@ -32,7 +49,8 @@ export interface DashboardProps {
   onPause?: () => void;
   onResume?: () => void;
   onStop?: () => void;
-  onRestart?: () => void;
+  onRestart?: (fromAgent?: string) => void;
+  onRerunAgent?: (agentName: string) => void;
   onDownload?: () => void;
 }
 
@@ -42,10 +60,77 @@ export default function Dashboard({
   onResume, 
   onStop,
   onRestart,
+  onRerunAgent,
   onDownload
 }: DashboardProps) {
   const [selectedFile, setSelectedFile] = useState<string>("/src/App.tsx");
 
+  // The server's view of the run; socket events below refetch it whenever the run changes course
+  const { data: projectData } = useQuery<{ project: Project; queuePosition: number | null }>({
+    queryKey: ["/api/projects", project.id]
+  });
+  const status = (projectData?.project.status as ProjectStatus["status"] | undefined) || project.status;
+  const state = projectData?.project.state as AgentState | null | undefined;
+  const pausedReason = status === "paused" ? state?.pausedReason : undefined;
+
+  const { data: usageData } = useQuery<{ usage: { agents: Record<string, AgentUsage>; total: AgentUsage } }>({
+    queryKey: ["/api/projects", project.id, "usage"],
+    refetchInterval: status === "running" ? 5000 : false
+  });
+
+  // Only the agents the project's pipeline selects, plugins included
+  const { data: agentsData } = useQuery<{ agents: Array<{ name: string; description: string; dependencies: string[] }> }>({
+    queryKey: ["/api/projects", project.id, "pipeline"]
+  });
+
+  const { data: filesData } = useQuery<{ files: ProjectFile[] }>({
+    queryKey: ["/api/projects", project.id, "files"]
+  });
+
+  // Raw output of agents still generating, keyed by agent name
+  const [streams, setStreams] = useState<Record<string, string>>({});
+
+  // Place in the server's run queue while the project waits for a slot
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
+
+  useProjectSocket(project.id, (message) => {
+    if (message.type === "agent-stream") {
+      const { agent, chunk } = message.data;
+      setStreams(prev => ({ ...prev, [agent]: (prev[agent] || "") + chunk }));
+    } else if (message.type === "agent-completed") {
+      const { agent } = message.data;
+      setStreams(prev => {
+        const { [agent]: _done, ...rest } = prev;
+        return rest;
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", project.id, "files"] });
+    } else if (message.type === "project-queued") {
+      setQueuePosition(message.data.position);
+    } else if (message.type === "project-dequeued" || message.type === "project-stopped") {
+      setQueuePosition(null);
+    } else if (message.type === "approval-requested") {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", project.id, "approvals"] });
+    } else if (message.type === "project-restarted") {
+      // Files of the rerun agents are gone; their streams start over
+      setStreams({});
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", project.id, "files"] });
+    } else if (message.type === "run-recorded") {
+      // Runs, their diffs and file revisions all live under the project's key
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", project.id] });
+    }
+    // Queued, started, paused, awaiting approval, completed, failed: the badge follows the server
+    if (message.type.startsWith("project-")) {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", project.id], exact: true });
+    }
+  });
+
+  const savedFiles = filesData?.files || [];
+  const savedPaths = new Set(savedFiles.map(f => f.path));
+  const streamedFiles = Object.entries(streams)
+    .flatMap(([agent, text]) => parseStreamedFiles(agent, text))
+    .filter(f => !savedPaths.has(f.path));
+  const files = buildFileTree([...savedFiles, ...streamedFiles]);
+
   //todo: remove mock functionality
   const mockPipelineSteps: PipelineStep[] = [
     {
@@ -113,38 +198,6 @@ export default function Dashboard({
     }
   ];
 
-  const mockFiles: FileNode[] = [
-    {
-      name: "src",
-      type: "folder",
-      path: "/src", 
-      children: [
-        {
-          name: "App.tsx",
-          type: "file",
-          path: "/src/App.tsx",
-          size: "2.1 KB",
-          content: `import React from 'react';
-import Header from './components/Header';
-import TaskList from './components/TaskList';
-
-function App() {
-  return (
-    <div className="min-h-screen bg-gray-50">
-      <Header />
-      <main className="container mx-auto py-8">
-        <TaskList />
-      </main>
-    </div>
-  );
-}
-
-export default App;`
-        }
-      ]
-    }
-  ];
-
   return (
     <div className="space-y-6">
       {/* Project Header */}
@@ -155,12 +208,17 @@ export default App;`
               <CardTitle className="text-2xl">{project.name}</CardTitle>
               <div className="flex items-center gap-4 mt-2">
                 <Badge 
-                  variant={project.status === 'running' ? 'default' : 'secondary'}
+                  variant={status === 'running' ? 'default' : status === 'error' ? 'destructive' : 'secondary'}
                   className="capitalize"
-                  data-testid={`project-status-${project.status}`}
+                  data-testid={`project-status-${status}`}
                 >
-                  {project.status}
+                  {status.replace("-", " ")}
                 </Badge>
+                {queuePosition !== null && (
+                  <Badge variant="outline" data-testid="badge-queue-position">
+                    Queued #{queuePosition}
+                  </Badge>
+                )}
                 <span className="text-sm text-muted-foreground">
                   Started {new Date(project.startTime).toLocaleString()}
                 </span>
@@ -168,7 +226,7 @@ export default App;`
             </div>
             
             <div className="flex items-center gap-2">
-              {project.status === 'running' ? (
+              {status === 'running' || status === 'queued' ? (
                 <Button 
                   variant="outline" 
                   onClick={onPause}
@@ -188,14 +246,36 @@ export default App;`
                 </Button>
               )}
               
-              <Button 
-                variant="outline" 
-                onClick={onRestart}
-                data-testid="button-restart"
-              >
-                <RotateCcw className="h-4 w-4 mr-2" />
-                Restart
-              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button 
+                    variant="outline" 
+                    data-testid="button-restart"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restart
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem
+                    onClick={() => onRestart?.()}
+                    data-testid="menu-restart-all"
+                  >
+                    From the beginning
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel>Restart from agent</DropdownMenuLabel>
+                  {(agentsData?.agents || []).map(agent => (
+                    <DropdownMenuItem
+                      key={agent.name}
+                      onClick={() => onRestart?.(agent.name)}
+                      data-testid={`menu-restart-from-${agent.name.toLowerCase()}`}
+                    >
+                      {agent.name}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
               
               <Button 
                 variant="outline" 
@@ -218,6 +298,15 @@ export default App;`
         </CardHeader>
       </Card>
 
+      {pausedReason && (
+        <BudgetPause
+          projectId={project.id}
+          reason={pausedReason}
+          budget={(projectData?.project.config as any)?.budget}
+          onResume={onResume}
+        />
+      )}
+
       {/* Main Content */}
       <Tabs defaultValue="overview" className="space-y-4">
         <TabsList className="grid w-full grid-cols-4">
@@ -228,27 +317,40 @@ export default App;`
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
+          <ApprovalGate projectId={project.id} />
           <ProgressPipeline 
             steps={mockPipelineSteps}
             currentStep="frontend"
           />
+          {usageData && (
+            <UsageSummary
+              agents={usageData.usage.agents}
+              total={usageData.usage.total}
+            />
+          )}
         </TabsContent>
 
         <TabsContent value="agents" className="space-y-4">
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {project.agents.map((agent, index) => (
-              <AgentCard
-                key={index}
-                name={agent.name}
-                description={getAgentDescription(agent.name)}
-                status={agent.status}
-                progress={agent.progress}
-                duration={agent.duration}
-                error={agent.error}
-                dependencies={getAgentDependencies(agent.name)}
-              />
-            ))}
+            {project.agents.map((agent, index) => {
+              // Plugin agents are only known to the server
+              const registered = agentsData?.agents.find(a => a.name === agent.name.replace(/ Agent$/, ""));
+              return (
+                <AgentCard
+                  key={index}
+                  name={agent.name}
+                  description={getAgentDescription(agent.name, registered?.description)}
+                  status={agent.status}
+                  progress={agent.progress}
+                  duration={agent.duration}
+                  error={agent.error}
+                  dependencies={registered ? registered.dependencies.map(dep => `${dep} Agent`) : getAgentDependencies(agent.name)}
+                  onRerun={onRerunAgent && (() => onRerunAgent(agent.name.replace(/ Agent$/, "")))}
+                />
+              );
+            })}
           </div>
+          <ModelRouting />
         </TabsContent>
 
         <TabsContent value="logs" className="space-y-4">
@@ -262,18 +364,19 @@ export default App;`
 
         <TabsContent value="code" className="space-y-4">
           <CodePreview 
-            files={mockFiles}
+            files={files}
             selectedFile={selectedFile}
             onFileSelect={setSelectedFile}
             onDownload={() => console.log('Download project files')}
           />
+          <FileChanges projectId={project.id} selectedFile={selectedFile} />
         </TabsContent>
       </Tabs>
     </div>
   );
 }
 
-function getAgentDescription(name: string): string {
+function getAgentDescription(name: string, fallback?: string): string {
   const descriptions: Record<string, string> = {
     "Requirement Agent": "Parses the user prompt into a structured project plan with technical specifications.",
     "Frontend Agent": "Builds the user interface based on the structured plan using modern React and Tailwind CSS.",
@@ -281,7 +384,7 @@ function getAgentDescription(name: string): string {
     "Validator Agent": "Reviews and debugs code from both frontend and backend agents to ensure quality.",
     "Deployment Agent": "Packages the final, validated project for deployment and local setup."
   };
-  return descriptions[name] || "AI agent working on your project";
+  return descriptions[name] || fallback || "AI agent working on your project";
 }
 
 function getAgentDependencies(name: string): string[] {
@@ -1,41 +1,77 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import ProjectSetup from "@/components/ProjectSetup";
 import Dashboard from "@/pages/Dashboard";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Rocket, Brain, Code, Shield, Download, CheckCircle } from "lucide-react";
-import type { ProjectConfig } from "@/components/ProjectSetup";
+import { Rocket, Brain, Code, Shield, Download, CheckCircle, History } from "lucide-react";
 import type { ProjectStatus } from "@/pages/Dashboard";
+import type { Project } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 
 export default function Home() {
   const [currentProject, setCurrentProject] = useState<ProjectStatus | null>(null);
-  const [isStarting, setIsStarting] = useState(false);
+  const { toast } = useToast();
 
-  const handleStartProject = async (config: ProjectConfig) => {
-    console.log('Starting project with config:', config);
-    setIsStarting(true);
-    
-    // Simulate project initialization
-    setTimeout(() => {
-      //todo: remove mock functionality
-      const mockProject: ProjectStatus = {
-        id: "proj_" + Date.now(),
-        name: config.projectName,
+  const handleProjectCreated = async (project: Project) => {
+    try {
+      // The API key was handed over when the project was created, so start needs no body
+      await apiRequest("POST", `/api/projects/${project.id}/start`);
+
+      // The agents the project's pipeline selects, plugins included, in pipeline order
+      const { agents } = await queryClient.fetchQuery<{ agents: Array<{ name: string }> }>({
+        queryKey: ["/api/projects", project.id, "pipeline"]
+      });
+
+      setCurrentProject({
+        id: project.id,
+        name: project.name,
         status: "running",
         startTime: new Date().toISOString(),
-        agents: [
-          { name: "Requirement Agent", status: "completed", duration: "2.3s" },
-          { name: "Frontend Agent", status: "running", progress: 65 },
-          { name: "Backend Agent", status: "pending" },
-          { name: "Validator Agent", status: "pending" },
-          { name: "Deployment Agent", status: "pending" }
-        ]
-      };
-      
-      setCurrentProject(mockProject);
-      setIsStarting(false);
-    }, 2000);
+        agents: agents.map(agent => ({ name: `${agent.name} Agent`, status: "pending" as const }))
+      });
+    } catch (error: any) {
+      toast({
+        title: "Failed to start project",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Calls one of the run control endpoints; the dashboard reads the resulting status from the server
+  const controlProject = async (action: "pause" | "resume" | "stop" | "restart", body?: unknown) => {
+    if (!currentProject) {
+      return;
+    }
+    try {
+      await apiRequest("POST", `/api/projects/${currentProject.id}/${action}`, body);
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", currentProject.id] });
+    } catch (error: any) {
+      toast({
+        title: `Failed to ${action} project`,
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRerunAgent = async (agentName: string) => {
+    if (!currentProject) {
+      return;
+    }
+    try {
+      await apiRequest("POST", `/api/projects/${currentProject.id}/agents/${agentName}/rerun`);
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", currentProject.id] });
+    } catch (error: any) {
+      toast({
+        title: `Failed to rerun ${agentName}`,
+        description: error.message,
+        variant: "destructive"
+      });
+    }
   };
 
   const handleNewProject = () => {
@@ -59,20 +95,29 @@ export default function Home() {
               </Badge>
             </div>
             
-            <Button variant="outline" onClick={handleNewProject} data-testid="button-new-project">
-              <Rocket className="h-4 w-4 mr-2" />
-              New Project
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" asChild data-testid="link-projects">
+                <Link href="/projects">
+                  <History className="h-4 w-4 mr-2" />
+                  Projects
+                </Link>
+              </Button>
+              <Button variant="outline" onClick={handleNewProject} data-testid="button-new-project">
+                <Rocket className="h-4 w-4 mr-2" />
+                New Project
+              </Button>
+            </div>
           </div>
         </header>
         
         <main className="container mx-auto px-4 py-8">
           <Dashboard 
             project={currentProject}
-            onPause={() => console.log('Pause project')}
-            onResume={() => console.log('Resume project')}
-            onStop={() => console.log('Stop project')}
-            onRestart={() => console.log('Restart project')}
+            onPause={() => controlProject("pause")}
+            onResume={() => controlProject("resume")}
+            onStop={() => controlProject("stop")}
+            onRestart={(fromAgent) => controlProject("restart", { fromAgent })}
+            onRerunAgent={handleRerunAgent}
             onDownload={() => console.log('Download project')}
           />
         </main>
@@ -113,6 +158,13 @@ export default function Home() {
                 Portable Output
               </Badge>
             </div>
+
+            <Button variant="outline" asChild data-testid="link-project-history">
+              <Link href="/projects">
+                <History className="h-4 w-4 mr-2" />
+                Project history
+              </Link>
+            </Button>
           </div>
         </div>
       </section>
@@ -172,7 +224,7 @@ export default function Home() {
 
           {/* Project Setup Form */}
           <div className="max-w-4xl mx-auto">
-            <ProjectSetup onStart={handleStartProject} isLoading={isStarting} />
+            <ProjectSetup onProjectCreated={handleProjectCreated} />
           </div>
         </div>
       </section>
@@ -0,0 +1,315 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, History, RotateCcw, Trash2 } from "lucide-react";
+import { useInfiniteQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Project } from "@shared/schema";
+
+type ListedProject = Omit<Project, "state">;
+
+interface ProjectsPage {
+  projects: ListedProject[];
+  nextCursor: string | null;
+}
+
+interface ProjectFilters {
+  search: string;
+  status: string; // "all" or one project status
+  mine: boolean;
+  trash: boolean;
+  createdAfter: string; // yyyy-mm-dd from the date inputs, "" for no bound
+  createdBefore: string;
+  sort: "createdAt" | "updatedAt" | "name";
+  order: "asc" | "desc";
+}
+
+const statuses = ["pending", "queued", "running", "paused", "stopped", "awaiting-approval", "completed", "error"];
+
+const statusVariant = (status: string) =>
+  status === "error" ? "destructive" : status === "completed" ? "default" : "secondary";
+
+// The query string GET /api/projects expects; date bounds cover whole local days
+function listParams(filters: ProjectFilters, cursor?: string): URLSearchParams {
+  const params = new URLSearchParams({ sort: filters.sort, order: filters.order, limit: "20" });
+  if (filters.search.trim()) params.set("search", filters.search.trim());
+  if (filters.status !== "all") params.set("status", filters.status);
+  if (filters.mine) params.set("ownerId", "me");
+  if (filters.trash) params.set("deleted", "only");
+  if (filters.createdAfter) params.set("createdAfter", new Date(`${filters.createdAfter}T00:00:00`).toISOString());
+  if (filters.createdBefore) params.set("createdBefore", new Date(`${filters.createdBefore}T23:59:59.999`).toISOString());
+  if (cursor) params.set("cursor", cursor);
+  return params;
+}
+
+export default function Projects() {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<ProjectFilters>({
+    search: "",
+    status: "all",
+    mine: false,
+    trash: false,
+    createdAfter: "",
+    createdBefore: "",
+    sort: "createdAt",
+    order: "desc"
+  });
+  const update = (changes: Partial<ProjectFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } = useInfiniteQuery({
+    queryKey: ["/api/projects", filters],
+    queryFn: async ({ pageParam }): Promise<ProjectsPage> => {
+      const res = await apiRequest("GET", `/api/projects?${listParams(filters, pageParam)}`);
+      return res.json();
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined
+  });
+  const projects = data?.pages.flatMap(page => page.projects) || [];
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ project, action }: { project: ListedProject; action: "trash" | "restore" | "delete" }) => {
+      if (action === "restore") {
+        await apiRequest("POST", `/api/projects/${project.id}/restore`);
+      } else {
+        await apiRequest("DELETE", `/api/projects/${project.id}${action === "delete" ? "?permanent=true" : ""}`);
+      }
+    },
+    onSuccess: (_data, { project, action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      toast({
+        title: action === "trash"
+          ? `${project.name} moved to the trash`
+          : action === "restore" ? `${project.name} restored` : `${project.name} deleted`
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update project", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild data-testid="button-back-home">
+            <Link href="/"><ArrowLeft className="h-4 w-4" /></Link>
+          </Button>
+          <History className="h-6 w-6 text-primary" />
+          <h1 className="text-2xl font-bold">Projects</h1>
+        </div>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Filters</CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <div className="space-y-2 lg:col-span-2">
+              <Label htmlFor="project-search">Search</Label>
+              <Input
+                id="project-search"
+                placeholder="Name or description"
+                value={filters.search}
+                onChange={e => update({ search: e.target.value })}
+                data-testid="input-project-search"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={filters.status} onValueChange={status => update({ status })}>
+                <SelectTrigger data-testid="select-project-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any status</SelectItem>
+                  {statuses.map(status => (
+                    <SelectItem key={status} value={status}>{status}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Sort</Label>
+              <Select
+                value={`${filters.sort}:${filters.order}`}
+                onValueChange={value => {
+                  const [sort, order] = value.split(":") as [ProjectFilters["sort"], ProjectFilters["order"]];
+                  update({ sort, order });
+                }}
+              >
+                <SelectTrigger data-testid="select-project-sort">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="createdAt:desc">Newest first</SelectItem>
+                  <SelectItem value="createdAt:asc">Oldest first</SelectItem>
+                  <SelectItem value="updatedAt:desc">Recently updated</SelectItem>
+                  <SelectItem value="name:asc">Name A–Z</SelectItem>
+                  <SelectItem value="name:desc">Name Z–A</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="created-after">Created from</Label>
+              <Input
+                id="created-after"
+                type="date"
+                value={filters.createdAfter}
+                onChange={e => update({ createdAfter: e.target.value })}
+                data-testid="input-created-after"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="created-before">Created until</Label>
+              <Input
+                id="created-before"
+                type="date"
+                value={filters.createdBefore}
+                onChange={e => update({ createdBefore: e.target.value })}
+                data-testid="input-created-before"
+              />
+            </div>
+            <div className="flex items-center gap-2 pt-6">
+              <Switch id="mine" checked={filters.mine} onCheckedChange={mine => update({ mine })} data-testid="switch-mine" />
+              <Label htmlFor="mine">Only mine</Label>
+            </div>
+            <div className="flex items-center gap-2 pt-6">
+              <Switch id="trash" checked={filters.trash} onCheckedChange={trash => update({ trash })} data-testid="switch-trash" />
+              <Label htmlFor="trash">Trash</Label>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading projects…</p>
+            ) : projects.length === 0 ? (
+              <p className="text-sm text-muted-foreground" data-testid="text-no-projects">
+                {filters.trash ? "The trash is empty" : "No projects match these filters"}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Updated</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {projects.map(project => (
+                    <TableRow key={project.id} data-testid={`row-project-${project.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{project.name}</div>
+                        <div className="text-xs text-muted-foreground line-clamp-1">{project.description}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariant(project.status)} className="text-xs">{project.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{new Date(project.createdAt).toLocaleString()}</TableCell>
+                      <TableCell className="text-sm">{new Date(project.updatedAt).toLocaleString()}</TableCell>
+                      <TableCell className="text-right space-x-2">
+                        {project.deletedAt ? (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={actionMutation.isPending}
+                              onClick={() => actionMutation.mutate({ project, action: "restore" })}
+                              data-testid={`button-restore-${project.id}`}
+                            >
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Restore
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="destructive"
+                                  size="sm"
+                                  disabled={actionMutation.isPending}
+                                  data-testid={`button-delete-${project.id}`}
+                                >
+                                  Delete forever
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete {project.name}?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Its logs, generated files, revisions and run history are removed too. This cannot be undone.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => actionMutation.mutate({ project, action: "delete" })}>
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={actionMutation.isPending}
+                            onClick={() => actionMutation.mutate({ project, action: "trash" })}
+                            data-testid={`button-trash-${project.id}`}
+                          >
+                            <Trash2 className="h-4 w-4 mr-1" />
+                            Trash
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {hasNextPage && (
+              <div className="flex justify-center pt-4">
+                <Button
+                  variant="outline"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  data-testid="button-load-more"
+                >
+                  {isFetchingNextPage ? "Loading…" : "Load more"}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+CREATE TABLE "agent_logs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" varchar NOT NULL,
+	"agent_name" text NOT NULL,
+	"level" text NOT NULL,
+	"message" text NOT NULL,
+	"metadata" json,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "llm_cache" (
+	"key" varchar PRIMARY KEY NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"response" json NOT NULL,
+	"size" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"last_hit_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "project_files" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" varchar NOT NULL,
+	"path" text NOT NULL,
+	"content" text NOT NULL,
+	"size" integer NOT NULL,
+	"language" text,
+	"agent_name" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "projects" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"description" text NOT NULL,
+	"config" json NOT NULL,
+	"owner_id" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"state" json,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "run_jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" varchar NOT NULL,
+	"owner_id" text NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"only" json,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "agent_logs" ADD CONSTRAINT "agent_logs_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_files" ADD CONSTRAINT "project_files_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "run_jobs" ADD CONSTRAINT "run_jobs_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "file_revisions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" varchar NOT NULL,
+	"path" text NOT NULL,
+	"revision" integer NOT NULL,
+	"content" text NOT NULL,
+	"size" integer NOT NULL,
+	"language" text,
+	"agent_name" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "project_files" ADD COLUMN "revision" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "project_files" ADD COLUMN "updated_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "file_revisions" ADD CONSTRAINT "file_revisions_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "file_revisions_project_path_revision_idx" ON "file_revisions" USING btree ("project_id","path","revision");--> statement-breakpoint
+-- Keep only the newest row of paths written more than once before files were keyed by path
+DELETE FROM "project_files" AS "older" USING "project_files" AS "newer" WHERE "older"."project_id" = "newer"."project_id" AND "older"."path" = "newer"."path" AND ("older"."created_at", "older"."id") < ("newer"."created_at", "newer"."id");--> statement-breakpoint
+INSERT INTO "file_revisions" ("project_id", "path", "revision", "content", "size", "language", "agent_name", "created_at") SELECT "project_id", "path", 1, "content", "size", "language", "agent_name", "created_at" FROM "project_files";--> statement-breakpoint
+CREATE UNIQUE INDEX "project_files_project_path_idx" ON "project_files" USING btree ("project_id","path");
\ No newline at end of file
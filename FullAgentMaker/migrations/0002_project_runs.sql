@@ -0,0 +1,12 @@
+CREATE TABLE "project_runs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" varchar NOT NULL,
+	"number" integer NOT NULL,
+	"status" text NOT NULL,
+	"files" json NOT NULL,
+	"started_at" timestamp NOT NULL,
+	"finished_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "project_runs" ADD CONSTRAINT "project_runs_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "project_runs_project_number_idx" ON "project_runs" USING btree ("project_id","number");
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TABLE "agent_routes" (
+	"agent" varchar PRIMARY KEY NOT NULL,
+	"routing" json NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
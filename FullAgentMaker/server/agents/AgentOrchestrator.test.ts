@@ -0,0 +1,368 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { sql } from "drizzle-orm";
+import { MemStorage, PgStorage, type IStorage } from "../storage";
+import type { InsertProject } from "@shared/schema";
+import { FakeProvider, type FakeResponse } from "../llm";
+import { AgentOrchestrator, ProjectConflictError } from "./AgentOrchestrator";
+
+// The orchestrator and its queue use the app's storage; here it points at whichever backend the
+// test runs against, since backends differ in whether they hand out the objects they store
+const backend = vi.hoisted(() => ({ current: undefined as unknown as IStorage }));
+vi.mock("../storage", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../storage")>();
+  const storage = new Proxy({}, {
+    get: (_target, key) => {
+      const value = (backend.current as any)[key];
+      return typeof value === "function" ? value.bind(backend.current) : value;
+    }
+  });
+  return { ...actual, storage };
+});
+
+const pglite = new PGlite();
+const pgDb = drizzle(pglite);
+let migrated: Promise<void> | undefined;
+
+const backends = [
+  { name: "MemStorage", create: async (): Promise<IStorage> => new MemStorage() },
+  {
+    name: "PgStorage",
+    create: async (): Promise<IStorage> => {
+      migrated ??= migrate(pgDb, { migrationsFolder: path.resolve(import.meta.dirname, "../../migrations") });
+      await migrated;
+      await pgDb.execute(sql`truncate table users, projects, llm_cache, agent_routes cascade`);
+      return new PgStorage(pgDb);
+    }
+  }
+];
+
+afterAll(async () => {
+  await pglite.close();
+});
+
+// The setup form's config, answered by the checked-in todo-app script
+const todoApp = (config: Record<string, unknown> = {}): InsertProject => ({
+  name: "Todo app",
+  description: "A list of things to do",
+  config: {
+    projectName: "Todo app",
+    description: "A list of things to do",
+    stack: "react",
+    database: "postgresql",
+    features: ["CRUD operations"],
+    pipeline: "fullstack",
+    llm: { provider: "fake", scriptName: "todo-app" },
+    ...config
+  },
+  ownerId: "alice"
+});
+
+// The todo-app script with some agents' answers replaced, every call taking `delayMs`
+function scripted(responses: FakeResponse[], delayMs = 0) {
+  const todo = FakeProvider.loadScript(FakeProvider.fixturePath("todo-app"));
+  return { provider: "fake", script: { responses: [...responses, ...todo.responses], delayMs } };
+}
+
+// Agents starting and finishing, in order, and the most that ran at once
+function agentTimeline(orchestrator: AgentOrchestrator) {
+  const events: string[] = [];
+  let running = 0;
+  let mostRunning = 0;
+  orchestrator.on("agent-started", ({ agent }) => {
+    events.push(`start ${agent}`);
+    mostRunning = Math.max(mostRunning, ++running);
+  });
+  for (const event of ["agent-completed", "agent-error"]) {
+    orchestrator.on(event, ({ agent }) => {
+      events.push(`end ${agent}`);
+      running--;
+    });
+  }
+  return {
+    events,
+    mostRunning: () => mostRunning
+  };
+}
+
+// The agents each run started, in the order they started
+function startedAgents(orchestrator: AgentOrchestrator) {
+  const started: string[] = [];
+  orchestrator.on("agent-started", ({ agent }) => started.push(agent));
+  return {
+    take: () => started.splice(0)
+  };
+}
+
+describe.each(backends)("AgentOrchestrator on $name", (backendSpec) => {
+  let orchestrator: AgentOrchestrator;
+
+  beforeEach(async () => {
+    backend.current = await backendSpec.create();
+    orchestrator = new AgentOrchestrator();
+  });
+
+  it("starts a finished project over from scratch and restarts from an agent", async () => {
+    const storage = backend.current;
+    const project = await storage.createProject(todoApp());
+    const started = startedAgents(orchestrator);
+    const everyAgent = ["Requirement", "Frontend", "Backend", "Validator", "Deployment"];
+
+    await orchestrator.startProject(project.id);
+    expect((await storage.getProject(project.id))?.status).toBe("completed");
+    expect(started.take().sort()).toEqual([...everyAgent].sort());
+
+    await orchestrator.startProject(project.id);
+    expect((await storage.getProject(project.id))?.status).toBe("completed");
+    expect(started.take().sort()).toEqual([...everyAgent].sort());
+
+    await orchestrator.restartProject(project.id, "Frontend");
+    expect((await storage.getProject(project.id))?.status).toBe("completed");
+    expect(started.take()).toEqual(["Frontend", "Validator", "Deployment"]);
+    expect((await storage.getProjectRuns(project.id)).map(run => run.status)).toEqual(["completed", "completed", "completed"]);
+  });
+
+  it("holds dependents of a gated agent until it is approved, across a server restart", async () => {
+    const storage = backend.current;
+    const project = await storage.createProject(todoApp({ approvals: ["Requirement"] }));
+    const started = startedAgents(orchestrator);
+
+    await orchestrator.startProject(project.id);
+    expect((await storage.getProject(project.id))?.status).toBe("awaiting-approval");
+    expect(started.take()).toEqual(["Requirement"]);
+
+    // A new orchestrator over the same storage is what the server has after a restart
+    const restarted = new AgentOrchestrator();
+    const later = startedAgents(restarted);
+    await restarted.recoverInterruptedRuns();
+    const pending = await storage.getProject(project.id);
+    expect(pending?.status).toBe("awaiting-approval");
+    expect(restarted.getPendingApprovals(pending!)).toEqual([
+      { agent: "Requirement", output: expect.objectContaining({ specification: expect.anything() }) }
+    ]);
+
+    await restarted.approveAgent(project.id, "Requirement");
+    const approved = await storage.getProject(project.id);
+    expect(approved?.status).toBe("completed");
+    expect((approved?.state as any).approvedAgents).toEqual(["Requirement"]);
+    expect(later.take().sort()).toEqual(["Backend", "Deployment", "Frontend", "Validator"]);
+    await expect(restarted.approveAgent(project.id, "Requirement")).rejects.toThrow(ProjectConflictError);
+  });
+
+  it("reruns a rejected agent with the feedback and carries on with an edited output", async () => {
+    const storage = backend.current;
+    const project = await storage.createProject(todoApp({ approvals: ["Requirement"] }));
+    const started = startedAgents(orchestrator);
+    await orchestrator.startProject(project.id);
+    started.take();
+
+    await orchestrator.rejectAgent(project.id, "Requirement", { feedback: "Add due dates" });
+    const revised = await storage.getProject(project.id);
+    expect(revised?.status).toBe("awaiting-approval");
+    expect(started.take()).toEqual(["Requirement"]);
+    expect((revised?.state as any).feedback.Requirement).toEqual({
+      feedback: "Add due dates",
+      previousOutput: expect.objectContaining({ specification: expect.anything() })
+    });
+
+    const edited = { ...(revised?.state as any).agentOutputs.Requirement, reviewed: true };
+    await orchestrator.rejectAgent(project.id, "Requirement", { output: edited });
+    const completed = await storage.getProject(project.id);
+    expect(completed?.status).toBe("completed");
+    expect((completed?.state as any).agentOutputs.Requirement).toEqual(edited);
+    expect((completed?.state as any).feedback?.Requirement).toBeUndefined();
+    expect(started.take().sort()).toEqual(["Backend", "Deployment", "Frontend", "Validator"]);
+  });
+
+  it("resumes a run a server restart cut off, rerunning the agent it interrupted", async () => {
+    const storage = backend.current;
+    const project = await storage.createProject(todoApp());
+    await storage.updateProjectStatus(project.id, "running");
+    await storage.updateProjectState(project.id, {
+      currentAgent: null,
+      runningAgents: ["Requirement"],
+      completedAgents: [],
+      agentProgress: { Requirement: 40 },
+      agentOutputs: {},
+      errors: []
+    });
+    const started = startedAgents(orchestrator);
+
+    await orchestrator.recoverInterruptedRuns();
+    await expect.poll(async () => (await storage.getProject(project.id))?.status, { timeout: 20_000 }).toBe("completed");
+
+    expect(started.take()[0]).toBe("Requirement");
+    const logs = await storage.getProjectLogs(project.id);
+    expect(logs.some(log => log.level === "warn" && log.agentName === "Requirement" && /interrupted by a server restart/.test(log.message))).toBe(true);
+    expect(await storage.getProjectRuns(project.id)).toHaveLength(1);
+  });
+
+  it("pauses an interrupted run that needs an API key the restart lost", async () => {
+    const storage = backend.current;
+    const project = await storage.createProject(todoApp({ llm: { provider: "gemini" } }));
+    await storage.updateProjectStatus(project.id, "running");
+    const recovered: Array<{ projectId: string; resumed: boolean }> = [];
+    orchestrator.on("project-recovered", event => recovered.push(event));
+
+    await orchestrator.recoverInterruptedRuns();
+
+    expect((await storage.getProject(project.id))?.status).toBe("paused");
+    expect(recovered).toEqual([{ projectId: project.id, resumed: false }]);
+    expect(await storage.getProjectRuns(project.id)).toHaveLength(0);
+  });
+});
+
+describe("AgentOrchestrator scheduling", () => {
+  beforeEach(() => {
+    backend.current = new MemStorage();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("starts each agent only after its dependencies and runs independent agents side by side", async () => {
+    const orchestrator = new AgentOrchestrator();
+    const project = await backend.current.createProject(todoApp({ llm: scripted([], 20) }));
+    const timeline = agentTimeline(orchestrator);
+
+    await orchestrator.startProject(project.id);
+
+    expect((await backend.current.getProject(project.id))?.status).toBe("completed");
+    for (const agent of orchestrator.getPipeline(project.config)) {
+      const started = timeline.events.indexOf(`start ${agent.name}`);
+      for (const dependency of agent.dependencies) {
+        expect(timeline.events.indexOf(`end ${dependency}`)).toBeLessThan(started);
+      }
+    }
+    expect(timeline.events.slice(2, 4).sort()).toEqual(["start Backend", "start Frontend"]);
+    expect(timeline.mostRunning()).toBe(2);
+  });
+
+  it("runs no more agents at once than AGENT_CONCURRENCY allows", async () => {
+    vi.stubEnv("AGENT_CONCURRENCY", "1");
+    const orchestrator = new AgentOrchestrator();
+    const project = await backend.current.createProject(todoApp({ llm: scripted([], 20) }));
+    const timeline = agentTimeline(orchestrator);
+
+    await orchestrator.startProject(project.id);
+
+    expect((await backend.current.getProject(project.id))?.status).toBe("completed");
+    expect(timeline.mostRunning()).toBe(1);
+    expect(timeline.events).toHaveLength(10);
+  });
+
+  it("lets running agents finish after a failure but starts none of the failed agent's dependents", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const orchestrator = new AgentOrchestrator();
+    const project = await backend.current.createProject(todoApp({
+      llm: scripted([{ agent: "Backend", error: "Malformed request", errorKind: "bad_request" }], 20)
+    }));
+    const timeline = agentTimeline(orchestrator);
+    const errors: string[] = [];
+    orchestrator.on("project-error", ({ error }) => errors.push(error));
+
+    await orchestrator.startProject(project.id);
+
+    const stored = await backend.current.getProject(project.id);
+    expect(stored?.status).toBe("error");
+    expect(errors).toEqual([expect.stringContaining("Agent Backend failed")]);
+    expect(timeline.events).toContain("end Frontend");
+    expect(timeline.events).not.toContain("start Validator");
+    expect(timeline.events).not.toContain("start Deployment");
+    expect((stored?.state as any).completedAgents.sort()).toEqual(["Frontend", "Requirement"]);
+    expect((stored?.state as any).errors.map((error: any) => error.agent)).toEqual(["Backend"]);
+  });
+});
+
+describe("AgentOrchestrator timeouts and retries", () => {
+  let orchestrator: AgentOrchestrator;
+  let pluginDir: string;
+
+  // One declarative agent, alone in its pipeline, whose LLM calls are never retried by the
+  // provider, so every failure it hits is an attempt of the agent itself
+  const summaryProject = (llm: Record<string, unknown>) => todoApp({
+    pipeline: { agents: ["Summary"] },
+    llm: { provider: "fake", retry: { maxAttempts: 1 }, ...llm }
+  });
+
+  // What each attempt of the agent failed with, as the orchestrator logged it
+  async function failedAttempts(projectId: string) {
+    const logs = await backend.current.getProjectLogs(projectId);
+    return logs
+      .filter(log => log.agentName === "Summary" && log.message.startsWith("Attempt "))
+      .map(log => log.message.split(":")[0]);
+  }
+
+  beforeEach(async () => {
+    backend.current = new MemStorage();
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    pluginDir = fs.mkdtempSync(path.join(os.tmpdir(), "agent-plugins-"));
+    const manifest = path.join(pluginDir, "agents.json");
+    fs.writeFileSync(manifest, JSON.stringify({
+      agents: [{ name: "Summary", prompt: "Summarize {{config.description}}", timeoutMs: 100, maxAttempts: 3 }]
+    }));
+    orchestrator = new AgentOrchestrator();
+    await orchestrator.loadPlugins(manifest);
+  });
+
+  afterEach(() => {
+    fs.rmSync(pluginDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("cuts an attempt off at the agent's timeout and retries it", async () => {
+    const project = await backend.current.createProject(summaryProject({
+      script: { responses: [{ agent: "Summary", content: "Too late" }], delayMs: 1000 }
+    }));
+
+    await orchestrator.startProject(project.id);
+
+    const stored = await backend.current.getProject(project.id);
+    expect(stored?.status).toBe("error");
+    expect((stored?.state as any).errors).toEqual([
+      expect.objectContaining({ agent: "Summary", error: "Agent Summary failed: Timed out after 100ms" })
+    ]);
+    expect(await failedAttempts(project.id)).toEqual([
+      "Attempt 1/3 failed (timeout), retrying",
+      "Attempt 2/3 failed (timeout), retrying",
+      "Attempt 3/3 failed (timeout)"
+    ]);
+  });
+
+  it("gives up after maxAttempts on a retryable failure", async () => {
+    const project = await backend.current.createProject(summaryProject({
+      script: { responses: [{ agent: "Summary", error: "Too many requests", errorKind: "rate_limit" }] }
+    }));
+
+    await orchestrator.startProject(project.id);
+
+    const stored = await backend.current.getProject(project.id);
+    expect(stored?.status).toBe("error");
+    expect((stored?.state as any).errors).toEqual([
+      expect.objectContaining({ agent: "Summary", error: "Agent Summary failed: Too many requests" })
+    ]);
+    expect(await failedAttempts(project.id)).toEqual([
+      "Attempt 1/3 failed (rate_limit), retrying",
+      "Attempt 2/3 failed (rate_limit), retrying",
+      "Attempt 3/3 failed (rate_limit)"
+    ]);
+  });
+
+  it("does not retry a failure whose kind is not listed in retryOn", async () => {
+    const project = await backend.current.createProject(summaryProject({
+      script: { responses: [{ agent: "Summary", error: "Prompt blocked", errorKind: "safety" }] }
+    }));
+
+    await orchestrator.startProject(project.id);
+
+    expect((await backend.current.getProject(project.id))?.status).toBe("error");
+    expect(await failedAttempts(project.id)).toEqual(["Attempt 1/3 failed (safety)"]);
+  });
+});
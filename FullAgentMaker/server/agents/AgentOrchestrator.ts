@@ -1,61 +1,91 @@
 import { EventEmitter } from "events";
 import { storage } from "../storage";
-import { geminiService } from "../gemini";
-import type { Project, AgentState, InsertAgentLog } from "@shared/schema";
+import {
+  createLLMProvider,
+  MeteredProvider,
+  RetryingProvider,
+  CachingProvider,
+  cacheSettingsFromEnv,
+  UsageMeter,
+  addUsage,
+  totalUsage,
+  budgetExceeded,
+  resolveAgentRouting,
+  type FailedAttempt,
+  type LLMErrorKind,
+  type LLMProvider,
+  type RoutingTable
+} from "../llm";
+import { keyVault, requiresApiKey } from "../keyVault";
+import { positiveIntFromEnv } from "../env";
+import type { Project, AgentState, AgentUsage, InsertAgentLog, AgentRouting } from "@shared/schema";
+import { BaseAgent, type AgentConfig, type AgentContext, type AgentFailureKind, type AgentResult } from "./BaseAgent";
 import { RequirementAgent } from "./RequirementAgent";
 import { FrontendAgent } from "./FrontendAgent";
 import { BackendAgent } from "./BackendAgent";
 import { ValidatorAgent } from "./ValidatorAgent";
 import { DeploymentAgent } from "./DeploymentAgent";
-
-export interface AgentConfig {
-  name: string;
-  description: string;
-  dependencies: string[];
+import { AgentRegistry, loadAgentPlugins } from "./registry";
+import { resolvePipeline, defaultPipeline } from "./pipelines";
+import { RunQueue, queueLimitsFromEnv } from "./RunQueue";
+import { ProjectConflictError } from "./errors";
+
+export { BaseAgent, type AgentConfig, type AgentResult, type AgentContext, type AgentFailureKind } from "./BaseAgent";
+export { AgentRegistry, type AgentRegistration, type AgentPlugin, type AgentFactory } from "./registry";
+export { DeclarativeAgent, type DeclarativeAgentDefinition } from "./DeclarativeAgent";
+export { pipelinePresets, type PipelinePreset } from "./pipelines";
+export { RunQueue, type QueueLimits } from "./RunQueue";
+export { ProjectConflictError } from "./errors";
+
+// Transient failures; anything else fails the agent on the first attempt unless its config says otherwise
+const DEFAULT_RETRY_ON: AgentFailureKind[] = ["timeout", "rate_limit", "server"];
+
+function rejectOnAbort(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    const abort = () => reject(signal.reason instanceof Error ? signal.reason : new Error("Aborted"));
+    if (signal.aborted) {
+      abort();
+    } else {
+      signal.addEventListener("abort", abort, { once: true });
+    }
+  });
 }
 
-export interface AgentResult {
-  success: boolean;
-  output?: any;
-  error?: string;
-  files?: Array<{ path: string; content: string; language?: string }>;
-}
-
-export abstract class BaseAgent {
-  constructor(
-    protected name: string,
-    protected orchestrator: AgentOrchestrator
-  ) {}
-
-  abstract execute(projectId: string, config: any, previousOutputs: Record<string, any>): Promise<AgentResult>;
-
-  protected async log(projectId: string, level: "info" | "warn" | "error" | "success", message: string, metadata?: any) {
-    const logEntry: InsertAgentLog = {
-      projectId,
-      agentName: this.name,
-      level,
-      message,
-      metadata
-    };
-    
-    await storage.addAgentLog(logEntry);
-    this.orchestrator.emit('log', logEntry);
-  }
-
-  protected async updateProgress(projectId: string, progress: number) {
-    this.orchestrator.emit('progress', { agent: this.name, progress });
-  }
+interface PipelineRun {
+  projectId: string;
+  project: Project;
+  state: AgentState;
+  config: any;
+  // The project's pipeline, resolved when the run starts
+  agents: AgentConfig[];
+  projectDefaults: RoutingTable;
+  // Meters of agents still running, so budget checks see their spend before it is recorded
+  meters: Map<string, UsageMeter>;
+  // Aborted by stop; in-flight LLM calls and retries end early
+  controller: AbortController;
+  // Set by pause; running agents finish and are checkpointed, nothing new starts
+  pauseRequested: boolean;
+  // Limits the run to these agents, for reruns of part of the graph
+  only?: string[];
+  settled?: Promise<void>;
 }
 
 export class AgentOrchestrator extends EventEmitter {
+  private registry = new AgentRegistry();
   private agents: Map<string, BaseAgent> = new Map();
-  private agentConfigs: AgentConfig[] = [
-    { name: "Requirement", description: "Parse user requirements", dependencies: [] },
-    { name: "Frontend", description: "Generate frontend code", dependencies: ["Requirement"] },
-    { name: "Backend", description: "Generate backend code", dependencies: ["Requirement"] },
-    { name: "Validator", description: "Validate generated code", dependencies: ["Frontend", "Backend"] },
-    { name: "Deployment", description: "Package for deployment", dependencies: ["Validator"] }
-  ];
+  // How many agents of one project may run at once; projects can lower or raise it with `config.concurrency`
+  private maxConcurrency = positiveIntFromEnv("AGENT_CONCURRENCY", 2);
+  private stateWrites: Map<string, Promise<void>> = new Map();
+  private activeRuns: Map<string, PipelineRun> = new Map();
+  // Pipeline executions from joining the queue until their run is recorded
+  private executions: Map<string, Promise<void>> = new Map();
+  // Requests still being applied, until their execution is under way or they fail; a second
+  // request for the same project meanwhile is refused rather than interleaved with the first
+  private claims: Map<string, symbol> = new Map();
+  // Every pipeline execution waits here for one of the server-wide run slots
+  private queue = new RunQueue(queueLimitsFromEnv(), positions => {
+    positions.forEach((position, projectId) => this.emit('project-queued', { projectId, position }));
+  });
 
   constructor() {
     super();
@@ -63,19 +93,101 @@ export class AgentOrchestrator extends EventEmitter {
   }
 
   private initializeAgents() {
-    this.agents.set("Requirement", new RequirementAgent("Requirement", this));
-    this.agents.set("Frontend", new FrontendAgent("Frontend", this));
-    this.agents.set("Backend", new BackendAgent("Backend", this));
-    this.agents.set("Validator", new ValidatorAgent("Validator", this));
-    this.agents.set("Deployment", new DeploymentAgent("Deployment", this));
+    this.registry.register({
+      name: "Requirement", description: "Parse user requirements", dependencies: [],
+      timeoutMs: 2 * 60_000, maxAttempts: 2,
+      create: (name, orchestrator) => new RequirementAgent(name, orchestrator)
+    });
+    this.registry.register({
+      name: "Frontend", description: "Generate frontend code", dependencies: ["Requirement"],
+      timeoutMs: 5 * 60_000, maxAttempts: 2,
+      create: (name, orchestrator) => new FrontendAgent(name, orchestrator)
+    });
+    this.registry.register({
+      name: "Backend", description: "Generate backend code", dependencies: ["Requirement"],
+      timeoutMs: 5 * 60_000, maxAttempts: 2,
+      create: (name, orchestrator) => new BackendAgent(name, orchestrator)
+    });
+    this.registry.register({
+      name: "Validator", description: "Validate generated code", dependencies: ["Frontend", "Backend"],
+      timeoutMs: 5 * 60_000, maxAttempts: 2,
+      create: (name, orchestrator) => new ValidatorAgent(name, orchestrator)
+    });
+    this.registry.register({
+      name: "Deployment", description: "Package for deployment", dependencies: ["Validator"],
+      timeoutMs: 2 * 60_000, maxAttempts: 2,
+      create: (name, orchestrator) => new DeploymentAgent(name, orchestrator)
+    });
+  }
+
+  // Registers the plugin modules and declarative agents listed in the AGENT_PLUGINS manifest
+  async loadPlugins(manifestPath?: string): Promise<void> {
+    await loadAgentPlugins(this.registry, manifestPath);
+  }
+
+  // Plugins can change the graph after boot, so the order is always read from the registry
+  private get agentConfigs(): AgentConfig[] {
+    return this.registry.configs();
+  }
+
+  // The agents the project's `config.pipeline` selects, in dependency order; throws when it is invalid
+  getPipeline(config: any): AgentConfig[] {
+    return resolvePipeline(config?.pipeline ?? defaultPipeline(config), this.agentConfigs);
+  }
+
+  private agentFor(name: string): BaseAgent | undefined {
+    if (!this.agents.has(name) && this.registry.has(name)) {
+      this.agents.set(name, this.registry.create(name, this));
+    }
+    return this.agents.get(name);
+  }
+
+  // Why the project cannot take the request right now, if it cannot. Routes answer with 409
+  // before anything changes; the request itself checks again when it claims the project.
+  busyReason(projectId: string, request: "start" | "resume" | "review" | "rerun" | "restart"): string | undefined {
+    if (this.claims.has(projectId)) {
+      return "Another request for this project is still being applied";
+    }
+    if (request === "start" && this.executions.has(projectId)) {
+      return "Project is already running";
+    }
+    // Queued or running, or a paused run still finishing its agents
+    if (request === "rerun" && this.executions.has(projectId)) {
+      return "Project is running; stop or pause it before rerunning an agent";
+    }
+    // A paused run may still be finishing agents; resume waits for it, but a live run needs no resume
+    const run = this.activeRuns.get(projectId);
+    if (request === "resume" && ((run && !run.pauseRequested) || this.queue.isWaiting(projectId))) {
+      return "Project is already running";
+    }
+    return undefined;
+  }
+
+  // Claims the project for a request, or throws ProjectConflictError. The returned release is
+  // called once the request has its execution under way, and again, harmlessly, when it ends.
+  private claim(projectId: string, request: "start" | "resume" | "review" | "rerun" | "restart"): () => void {
+    const reason = this.busyReason(projectId, request);
+    if (reason) {
+      throw new ProjectConflictError(reason);
+    }
+    const token = Symbol(projectId);
+    this.claims.set(projectId, token);
+    return () => {
+      if (this.claims.get(projectId) === token) {
+        this.claims.delete(projectId);
+      }
+    };
   }
 
   async startProject(projectId: string): Promise<void> {
+    const release = this.claim(projectId, "start");
     try {
       const project = await storage.getProject(projectId);
       if (!project) {
         throw new Error("Project not found");
       }
+      // An invalid pipeline fails the start before the project is marked running
+      this.getPipeline(project.config);
 
       await storage.updateProjectStatus(projectId, "running");
 
@@ -87,19 +199,78 @@ export class AgentOrchestrator extends EventEmitter {
         errors: []
       };
 
-      await storage.updateProjectState(projectId, initialState);
+      await this.saveState(projectId, initialState);
       this.emit('project-started', { projectId });
 
-      await this.executeAgentPipeline(projectId, project);
+      // The copy read above still holds the previous run's state; storages need not share objects
+      const execution = this.executeAgentPipeline(projectId, { ...project, state: initialState });
+      release();
+      await execution;
 
     } catch (error: any) {
+      // A refused request leaves the project as it was
+      if (error instanceof ProjectConflictError) {
+        throw error;
+      }
       console.error("Project execution failed:", error);
       await storage.updateProjectStatus(projectId, "error");
       this.emit('project-error', { projectId, error: error.message });
+    } finally {
+      release();
     }
   }
 
-  private async executeAgentPipeline(projectId: string, project: Project): Promise<void> {
+  private async executeAgentPipeline(projectId: string, project: Project, only?: string[]): Promise<void> {
+    const execution = this.queueAndRun(projectId, project, only);
+    this.executions.set(projectId, execution);
+    try {
+      await execution;
+    } finally {
+      if (this.executions.get(projectId) === execution) {
+        this.executions.delete(projectId);
+      }
+    }
+  }
+
+  private async queueAndRun(projectId: string, project: Project, only?: string[]): Promise<void> {
+    const ticket = await this.queue.acquire(projectId, project.ownerId || "anonymous", only);
+    if (ticket.position > 0) {
+      await storage.updateProjectStatus(projectId, "queued");
+    }
+    if (!await ticket.admitted) {
+      return;
+    }
+    // Only a run that holds a slot is marked running
+    await storage.updateProjectStatus(projectId, "running");
+    if (ticket.position > 0) {
+      this.emit('project-dequeued', { projectId });
+    }
+
+    const startedAt = new Date();
+    let outcome = "error";
+    try {
+      const run = await this.runPipeline(projectId, project, ticket.only);
+      // A stopped run settles before stopProject marks the project stopped
+      outcome = run.controller.signal.aborted ? "stopped" : (await storage.getProject(projectId))?.status || outcome;
+    } finally {
+      await this.recordRun(projectId, startedAt, outcome);
+      await this.queue.release(projectId);
+    }
+  }
+
+  // Which revision of each file the run left behind, so runs can be compared later
+  private async recordRun(projectId: string, startedAt: Date, status: string) {
+    const files = await storage.getProjectFiles(projectId);
+    const run = await storage.addProjectRun({
+      projectId,
+      status,
+      startedAt,
+      files: Object.fromEntries(files.map(file => [file.path, file.revision]))
+    });
+    this.emit('run-recorded', { projectId, number: run.number, status });
+  }
+
+  private async runPipeline(projectId: string, project: Project, only?: string[]): Promise<PipelineRun> {
     const state = project.state as AgentState || {
       currentAgent: null,
       completedAgents: [],
@@ -108,106 +279,733 @@ export class AgentOrchestrator extends EventEmitter {
       errors: []
     };
 
-    for (const agentConfig of this.agentConfigs) {
-      // Skip if already completed
-      if (state.completedAgents.includes(agentConfig.name)) {
-        continue;
+    const config = project.config as any;
+    // A project's top-level model settings sit between the server routing and its per-agent overrides
+    const projectDefaults: RoutingTable = {
+      default: {
+        text: { model: config?.llm?.model, ...config?.llm?.text },
+        structured: { model: config?.llm?.structuredModel, ...config?.llm?.structured }
       }
+    };
+
+    // Nothing is running yet, whatever an interrupted run left behind
+    state.runningAgents = [];
+    state.currentAgent = null;
+    delete state.pausedReason;
+
+    const run: PipelineRun = {
+      projectId,
+      project,
+      state,
+      config,
+      agents: this.getPipeline(config),
+      projectDefaults,
+      meters: new Map(),
+      controller: new AbortController(),
+      pauseRequested: false,
+      only
+    };
+
+    this.activeRuns.set(projectId, run);
+    run.settled = this.schedule(run).finally(() => this.activeRuns.delete(projectId));
+    await run.settled;
+    return run;
+  }
 
-      // Check if dependencies are met
-      const dependenciesMet = agentConfig.dependencies.every(dep => 
-        state.completedAgents.includes(dep)
-      );
-
-      if (!dependenciesMet) {
-        const missingDeps = agentConfig.dependencies.filter(dep => 
-          !state.completedAgents.includes(dep)
-        );
-        throw new Error(`Agent ${agentConfig.name} dependencies not met: ${missingDeps.join(", ")}`);
-      }
-
-      // Execute agent
-      state.currentAgent = agentConfig.name;
-      await storage.updateProjectState(projectId, state);
-      this.emit('agent-started', { projectId, agent: agentConfig.name });
-
-      const agent = this.agents.get(agentConfig.name);
-      if (!agent) {
-        throw new Error(`Agent ${agentConfig.name} not found`);
-      }
-
-      try {
-        const result = await agent.execute(projectId, project.config, state.agentOutputs);
-        
-        if (result.success) {
-          state.completedAgents.push(agentConfig.name);
-          state.agentOutputs[agentConfig.name] = result.output;
-          state.agentProgress[agentConfig.name] = 100;
-
-          // Save generated files
-          if (result.files) {
-            for (const file of result.files) {
-              await storage.addProjectFile({
-                projectId,
-                path: file.path,
-                content: file.content,
-                size: file.content.length,
-                language: file.language
-              });
-            }
+  private async schedule(run: PipelineRun): Promise<void> {
+    const { projectId, state, config } = run;
+    const signal = run.controller.signal;
+    const maxConcurrency = Number.isInteger(config?.concurrency) && config.concurrency >= 1
+      ? config.concurrency
+      : this.maxConcurrency;
+    const running = new Map<string, Promise<void>>();
+    let failure: Error | null = null;
+    let paused = false;
+
+    // Every agent whose dependencies have completed starts as soon as a slot is free.
+    // After a failure, a pause or a stop nothing new starts, but running agents finish.
+    while (true) {
+      if (!failure && !paused && !run.pauseRequested && !signal.aborted) {
+        for (const agentConfig of this.readyAgents(run, running)) {
+          if (running.size >= maxConcurrency) {
+            break;
           }
 
-          this.emit('agent-completed', { projectId, agent: agentConfig.name });
-        } else {
-          state.errors.push({
-            agent: agentConfig.name,
-            error: result.error || "Unknown error",
-            timestamp: new Date().toISOString()
-          });
-          throw new Error(`Agent ${agentConfig.name} failed: ${result.error}`);
+          // Don't start another agent once the project has spent its budget
+          const budgetError = budgetExceeded(config?.budget, this.spentExcept(run));
+          if (budgetError) {
+            await this.pauseForBudget(projectId, state, agentConfig.name, budgetError);
+            paused = true;
+            break;
+          }
+
+          const execution = this.runAgent(run, agentConfig)
+            .then(outcome => {
+              if (outcome === "paused") {
+                paused = true;
+              }
+            })
+            .catch(error => {
+              failure = failure || error;
+            })
+            .finally(() => running.delete(agentConfig.name));
+          running.set(agentConfig.name, execution);
         }
+      }
 
-      } catch (error: any) {
-        state.errors.push({
-          agent: agentConfig.name,
-          error: error.message,
-          timestamp: new Date().toISOString()
-        });
-        await storage.updateProjectState(projectId, state);
-        this.emit('agent-error', { projectId, agent: agentConfig.name, error: error.message });
-        throw error;
+      if (running.size === 0) {
+        break;
       }
+      await Promise.race(running.values());
+    }
+
+    if (signal.aborted) {
+      return;
+    }
+    if (failure) {
+      throw failure;
+    }
+    if (paused) {
+      return;
+    }
 
-      state.currentAgent = null;
-      await storage.updateProjectState(projectId, state);
+    // Nothing more can run until a reviewer approves or rejects the gated output
+    if (state.awaitingApproval?.length) {
+      await storage.updateProjectStatus(projectId, "awaiting-approval");
+      this.emit('project-awaiting-approval', { projectId, agents: state.awaitingApproval });
+      return;
+    }
+
+    const remaining = run.agents.filter(agentConfig => !state.completedAgents.includes(agentConfig.name));
+    const blocked = remaining.find(agentConfig => !run.only || run.only.includes(agentConfig.name));
+    if (blocked && run.pauseRequested) {
+      return;
+    }
+    if (blocked) {
+      const missingDeps = blocked.dependencies.filter(dep => !state.completedAgents.includes(dep));
+      throw new Error(`Agent ${blocked.name} dependencies not met: ${missingDeps.join(", ")}`);
+    }
+
+    // A rerun finished its part of the graph, but agents outside it never ran
+    if (remaining.length > 0) {
+      await storage.updateProjectStatus(projectId, "stopped");
+      this.emit('project-stopped', { projectId });
+      return;
     }
 
     // All agents completed successfully
     await storage.updateProjectStatus(projectId, "completed");
+    keyVault.delete(projectId);
     this.emit('project-completed', { projectId });
   }
 
+  private readyAgents(run: PipelineRun, running: Map<string, Promise<void>>): AgentConfig[] {
+    const { state, only } = run;
+    return run.agents.filter(agentConfig =>
+      (!only || only.includes(agentConfig.name)) &&
+      !state.completedAgents.includes(agentConfig.name) &&
+      !running.has(agentConfig.name) &&
+      agentConfig.dependencies.every(dep =>
+        state.completedAgents.includes(dep) && !state.awaitingApproval?.includes(dep)
+      )
+    );
+  }
+
+  // Recorded usage plus whatever agents still running have spent, optionally leaving one out
+  private spentExcept(run: PipelineRun, agentName?: string): AgentUsage {
+    return Array.from(run.meters.entries())
+      .filter(([name]) => name !== agentName)
+      .reduce((sum, [, meter]) => addUsage(sum, meter.usage), totalUsage(run.state.usage));
+  }
+
+  private async runAgent(run: PipelineRun, agentConfig: AgentConfig): Promise<"completed" | "paused" | "cancelled"> {
+    const { projectId, state, config } = run;
+    const signal = run.controller.signal;
+
+    const agent = this.agentFor(agentConfig.name);
+    if (!agent) {
+      throw new Error(`Agent ${agentConfig.name} not found`);
+    }
+
+    state.runningAgents = [...(state.runningAgents || []), agentConfig.name];
+    state.currentAgent = agentConfig.name;
+    await this.saveState(projectId, state);
+    this.emit('agent-started', { projectId, agent: agentConfig.name });
+
+    const meter = new UsageMeter(config?.budget, () => this.spentExcept(run, agentConfig.name));
+    run.meters.set(agentConfig.name, meter);
+
+    try {
+      // Usage is kept even when the agent fails; those tokens were still spent
+      const result = await this.executeWithRetries(run, agentConfig, agent, meter)
+        .finally(() => {
+          run.meters.delete(agentConfig.name);
+          this.recordUsage(state, agentConfig.name, meter);
+        });
+
+      if (!result.success) {
+        throw new Error(`Agent ${agentConfig.name} failed: ${result.error}`);
+      }
+
+      // Save generated files
+      if (result.files) {
+        for (const file of result.files) {
+          await storage.saveProjectFile({
+            projectId,
+            path: file.path,
+            content: file.content,
+            size: file.content.length,
+            language: file.language,
+            agentName: agentConfig.name
+          });
+        }
+      }
+
+      state.completedAgents.push(agentConfig.name);
+      state.agentOutputs[agentConfig.name] = result.output;
+      state.agentProgress[agentConfig.name] = 100;
+      const needsApproval = (config?.approvals || []).includes(agentConfig.name) &&
+        !state.approvedAgents?.includes(agentConfig.name);
+      if (needsApproval) {
+        state.awaitingApproval = [...(state.awaitingApproval || []), agentConfig.name];
+      }
+      this.markStopped(state, agentConfig.name);
+      await this.saveState(projectId, state);
+      this.emit('agent-completed', { projectId, agent: agentConfig.name });
+      if (needsApproval) {
+        this.emit('approval-requested', { projectId, agent: agentConfig.name, output: result.output });
+      }
+      return "completed";
+
+    } catch (error: any) {
+      this.markStopped(state, agentConfig.name);
+
+      // A stopped agent is simply left out of the checkpoint, to run again on resume
+      if (signal.aborted) {
+        await this.saveState(projectId, state);
+        this.emit('agent-cancelled', { projectId, agent: agentConfig.name });
+        return "cancelled";
+      }
+
+      // Running out of budget mid-agent pauses instead of failing, so the agent reruns on resume
+      if (meter.budgetError) {
+        await this.pauseForBudget(projectId, state, agentConfig.name, meter.budgetError);
+        return "paused";
+      }
+
+      state.errors.push({
+        agent: agentConfig.name,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      });
+      await this.saveState(projectId, state);
+      this.emit('agent-error', { projectId, agent: agentConfig.name, error: error.message });
+      throw error;
+    }
+  }
+
+  // Runs the agent up to `maxAttempts` times, retrying failures whose kind is listed in `retryOn`.
+  // Every failed attempt is logged; only the last one reaches the caller.
+  private async executeWithRetries(
+    run: PipelineRun,
+    agentConfig: AgentConfig,
+    agent: BaseAgent,
+    meter: UsageMeter
+  ): Promise<AgentResult> {
+    const maxAttempts = Math.max(1, agentConfig.maxAttempts || 1);
+    const retryOn = agentConfig.retryOn || DEFAULT_RETRY_ON;
+
+    for (let attempt = 1; ; attempt++) {
+      const outcome = await this.attemptAgent(run, agentConfig, agent, meter);
+      if (outcome.result.success) {
+        return outcome.result;
+      }
+      // Stopping and budget pauses are handled by the caller, never retried
+      if (run.controller.signal.aborted || meter.budgetError) {
+        return outcome.result;
+      }
+
+      const error = outcome.result.error || "Unknown error";
+      const willRetry = attempt < maxAttempts && retryOn.includes(outcome.kind);
+      await this.addLog({
+        projectId: run.projectId,
+        agentName: agentConfig.name,
+        level: willRetry ? "warn" : "error",
+        message: `Attempt ${attempt}/${maxAttempts} failed (${outcome.kind})${willRetry ? ", retrying" : ""}: ${error}`,
+        metadata: { attempt, maxAttempts, kind: outcome.kind, error }
+      });
+
+      if (!willRetry) {
+        return outcome.result;
+      }
+    }
+  }
+
+  private async attemptAgent(
+    run: PipelineRun,
+    agentConfig: AgentConfig,
+    agent: BaseAgent,
+    meter: UsageMeter
+  ): Promise<{ result: AgentResult; kind: AgentFailureKind }> {
+    const { projectId, project, state, config } = run;
+    const timeout = agentConfig.timeoutMs ? AbortSignal.timeout(agentConfig.timeoutMs) : undefined;
+    const signal = timeout ? AbortSignal.any([run.controller.signal, timeout]) : run.controller.signal;
+    // The kind of the attempt's last failed LLM call, which usually explains an agent failure
+    let llmErrorKind: LLMErrorKind | undefined;
+
+    // Provider is chosen per project via `config.llm`, falling back to LLM_PROVIDER / Gemini.
+    // The API key comes from the in-memory vault, never from the persisted config.
+    const routing = await this.getRouting();
+    let llm: LLMProvider = createLLMProvider({
+      ...config?.llm,
+      ...resolveAgentRouting(agentConfig.name, routing, run.projectDefaults, config?.llm?.routing),
+      apiKey: keyVault.get(projectId),
+      signal
+    }, agentConfig.name);
+
+    const cacheSettings = cacheSettingsFromEnv();
+    if (cacheSettings && !config?.llm?.bypassCache) {
+      llm = new CachingProvider(llm, storage, cacheSettings, project.ownerId || "anonymous");
+    }
+
+    const context: AgentContext = {
+      llm: new MeteredProvider(
+        new RetryingProvider(
+          llm,
+          config?.llm?.retry,
+          failure => {
+            llmErrorKind = failure.errorKind;
+            return this.logFailedAttempt(projectId, agentConfig.name, failure);
+          },
+          signal
+        ),
+        meter
+      ),
+      signal,
+      feedback: state.feedback?.[agentConfig.name]
+    };
+
+    const failureKind = (): AgentFailureKind => timeout?.aborted ? "timeout" : llmErrorKind || "error";
+
+    try {
+      // Agents that ignore the signal are still cut off when it fires
+      const result = await Promise.race([
+        agent.execute(projectId, project.config, { ...state.agentOutputs }, context),
+        rejectOnAbort(signal)
+      ]);
+      return { result, kind: failureKind() };
+    } catch (error: any) {
+      const message = timeout?.aborted ? `Timed out after ${agentConfig.timeoutMs}ms` : error.message;
+      return { result: { success: false, error: message }, kind: failureKind() };
+    }
+  }
+
+  private markStopped(state: AgentState, agentName: string) {
+    state.runningAgents = (state.runningAgents || []).filter(name => name !== agentName);
+    state.currentAgent = state.runningAgents[state.runningAgents.length - 1] || null;
+  }
+
+  // Agents running side by side share one state object; chaining the writes per project
+  // keeps a slow write from landing after a newer one
+  private saveState(projectId: string, state: AgentState): Promise<void> {
+    const previous = this.stateWrites.get(projectId) || Promise.resolve();
+    const write = previous.then(() => storage.updateProjectState(projectId, state));
+    this.stateWrites.set(projectId, write.catch(() => undefined));
+    return write;
+  }
+
+  async addLog(entry: InsertAgentLog): Promise<void> {
+    await storage.addAgentLog(entry);
+    this.emit('log', entry);
+  }
+
+  private async logFailedAttempt(projectId: string, agentName: string, failure: FailedAttempt) {
+    const attempts = `attempt ${failure.attempt}/${failure.maxAttempts}`;
+    const message = failure.retryInMs === null
+      ? `LLM call failed (${failure.errorKind}, ${attempts}), giving up: ${failure.error}`
+      : `LLM call failed (${failure.errorKind}, ${attempts}), retrying in ${(failure.retryInMs / 1000).toFixed(1)}s: ${failure.error}`;
+
+    await this.addLog({
+      projectId,
+      agentName,
+      level: failure.retryInMs === null ? "error" : "warn",
+      message,
+      metadata: failure
+    });
+  }
+
+  private async pauseForBudget(projectId: string, state: AgentState, agentName: string, reason: string) {
+    state.errors.push({
+      agent: agentName,
+      error: `${reason}. Raise the project budget and resume to continue.`,
+      timestamp: new Date().toISOString()
+    });
+    state.pausedReason = reason;
+    await this.saveState(projectId, state);
+    await storage.updateProjectStatus(projectId, "paused");
+    this.emit('project-paused', { projectId, reason });
+  }
+
+  private recordUsage(state: AgentState, agentName: string, meter: UsageMeter) {
+    state.usage = state.usage || {};
+    state.usage[agentName] = addUsage(state.usage[agentName], meter.usage);
+  }
+
+  // Agents already running finish and are checkpointed; no further agent starts until resume
   async pauseProject(projectId: string): Promise<void> {
+    // A queued project gives up its place; resume queues it again
+    await this.queue.cancel(projectId);
+    const run = this.activeRuns.get(projectId);
+    if (run) {
+      run.pauseRequested = true;
+    }
     await storage.updateProjectStatus(projectId, "paused");
     this.emit('project-paused', { projectId });
   }
 
-  async resumeProject(projectId: string): Promise<void> {
+  // Aborts in-flight LLM calls and waits for the run to wind down; unfinished agents are not checkpointed
+  async stopProject(projectId: string): Promise<void> {
+    await this.haltRun(projectId);
+    await storage.updateProjectStatus(projectId, "stopped");
+    this.emit('project-stopped', { projectId });
+  }
+
+  // Stops whatever the project has queued or running and waits until its run is recorded, so the
+  // project can be deleted without a late write bringing parts of it back
+  async releaseProject(projectId: string): Promise<void> {
+    if (this.activeRuns.has(projectId) || this.queue.has(projectId)) {
+      await this.stopProject(projectId);
+    }
+    await this.executions.get(projectId)?.catch(() => undefined);
+  }
+
+  // Runs again from `fromAgent`, or from scratch without one. That agent and everything
+  // downstream of it lose their outputs and files; upstream results are reused.
+  async restartProject(projectId: string, fromAgent?: string): Promise<void> {
+    const release = this.claim(projectId, "restart");
+    try {
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        throw new Error("Project not found");
+      }
+      const agents = this.getPipeline(project.config);
+      if (fromAgent && !agents.some(agentConfig => agentConfig.name === fromAgent)) {
+        throw new Error(`Agent ${fromAgent} is not part of this project's pipeline`);
+      }
+
+      await this.haltRun(projectId);
+
+      const invalidated = fromAgent
+        ? this.downstreamOf(agents, [fromAgent])
+        : agents.map(agentConfig => agentConfig.name);
+      const state = await this.resetAgents(projectId, project, invalidated);
+      this.emit('project-restarted', { projectId, fromAgent: fromAgent || null, invalidated });
+
+      const execution = this.executeAgentPipeline(projectId, { ...project, state });
+      release();
+      await execution;
+
+    } catch (error: any) {
+      if (error instanceof ProjectConflictError) {
+        throw error;
+      }
+      console.error("Project restart failed:", error);
+      await storage.updateProjectStatus(projectId, "error");
+      this.emit('project-error', { projectId, error: error.message });
+    } finally {
+      release();
+    }
+  }
+
+  // The agents a rerun of `agentName` would execute: it and everything downstream of it.
+  // Throws when something the subgraph needs from outside has not completed; whether the project
+  // is free to rerun is busyReason's call.
+  planRerun(project: Project, agentName: string): string[] {
+    if (!this.registry.has(agentName)) {
+      throw new Error(`Agent ${agentName} not found`);
+    }
+    const agents = this.getPipeline(project.config);
+    if (!agents.some(agentConfig => agentConfig.name === agentName)) {
+      throw new Error(`Agent ${agentName} is not part of this project's pipeline`);
+    }
+
+    const subgraph = this.downstreamOf(agents, [agentName]);
+    const completed = (project.state as AgentState | null)?.completedAgents || [];
+    const missing = agents
+      .filter(agentConfig => subgraph.includes(agentConfig.name))
+      .flatMap(agentConfig => agentConfig.dependencies)
+      .filter(dep => !subgraph.includes(dep) && !completed.includes(dep));
+    if (missing.length > 0) {
+      throw new Error(`Cannot rerun ${agentName} before ${Array.from(new Set(missing)).join(", ")} completed`);
+    }
+    return subgraph;
+  }
+
+  // Executes only `agentName` and its dependents; results of every other agent are kept
+  async rerunAgent(projectId: string, agentName: string): Promise<void> {
+    const release = this.claim(projectId, "rerun");
+    try {
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        throw new Error("Project not found");
+      }
+
+      const subgraph = this.planRerun(project, agentName);
+      const state = await this.resetAgents(projectId, project, subgraph);
+      this.emit('agent-rerun', { projectId, agent: agentName, invalidated: subgraph });
+
+      const execution = this.executeAgentPipeline(projectId, { ...project, state }, subgraph);
+      release();
+      await execution;
+
+    } catch (error: any) {
+      if (error instanceof ProjectConflictError) {
+        throw error;
+      }
+      console.error("Agent rerun failed:", error);
+      await storage.updateProjectStatus(projectId, "error");
+      this.emit('project-error', { projectId, error: error.message });
+    } finally {
+      release();
+    }
+  }
+
+  // Outputs waiting for a reviewer, in pipeline order
+  getPendingApprovals(project: Project): Array<{ agent: string; output: any }> {
+    const state = project.state as AgentState | null;
+    return (state?.awaitingApproval || []).map(agent => ({ agent, output: state!.agentOutputs[agent] }));
+  }
+
+  // Releases the agent's dependents; once nothing else awaits review the run carries on
+  async approveAgent(projectId: string, agentName: string): Promise<void> {
+    const release = this.claim(projectId, "review");
+    try {
+      const project = await this.awaitingReview(projectId, agentName);
+      await this.approve(project, agentName, release);
+
+    } catch (error: any) {
+      if (error instanceof ProjectConflictError) {
+        throw error;
+      }
+      console.error("Approval failed:", error);
+      await storage.updateProjectStatus(projectId, "error");
+      this.emit('project-error', { projectId, error: error.message });
+    } finally {
+      release();
+    }
+  }
+
+  // Edited output replaces the agent's own. With feedback the agent reruns to revise its output
+  // and comes back for review; with edits alone the edited output is approved as is.
+  async rejectAgent(projectId: string, agentName: string, review: { feedback?: string; output?: any }): Promise<void> {
+    const release = this.claim(projectId, "review");
+    try {
+      const project = await this.awaitingReview(projectId, agentName);
+      const state = project.state as AgentState;
+
+      if (review.output !== undefined) {
+        state.agentOutputs[agentName] = review.output;
+        await this.saveState(projectId, state);
+      }
+      if (!review.feedback) {
+        await this.approve(project, agentName, release);
+        return;
+      }
+
+      const previousOutput = state.agentOutputs[agentName];
+      const invalidated = this.downstreamOf(this.getPipeline(project.config), [agentName]);
+      const reset = await this.resetAgents(projectId, project, invalidated);
+      reset.feedback = { ...reset.feedback, [agentName]: { feedback: review.feedback, previousOutput } };
+      await this.saveState(projectId, reset);
+      this.emit('agent-rejected', { projectId, agent: agentName, feedback: review.feedback });
+
+      const execution = this.executeAgentPipeline(projectId, { ...project, state: reset });
+      release();
+      await execution;
+
+    } catch (error: any) {
+      if (error instanceof ProjectConflictError) {
+        throw error;
+      }
+      console.error("Rejection failed:", error);
+      await storage.updateProjectStatus(projectId, "error");
+      this.emit('project-error', { projectId, error: error.message });
+    } finally {
+      release();
+    }
+  }
+
+  // The project once the run that asked for the review has wound down and recorded itself,
+  // provided the agent still awaits review; a second click on the same button finds it does not
+  private async awaitingReview(projectId: string, agentName: string): Promise<Project> {
+    await this.executions.get(projectId)?.catch(() => undefined);
     const project = await storage.getProject(projectId);
     if (!project) {
       throw new Error("Project not found");
     }
+    const state = project.state as AgentState | null;
+    if (!state?.awaitingApproval?.includes(agentName)) {
+      throw new ProjectConflictError(`${agentName} is not awaiting approval`);
+    }
+    return project;
+  }
 
+  private async approve(project: Project, agentName: string, release: () => void): Promise<void> {
+    const projectId = project.id;
+    const state = project.state as AgentState;
+    state.awaitingApproval = state.awaitingApproval!.filter(name => name !== agentName);
+    state.approvedAgents = [...(state.approvedAgents || []), agentName];
+    delete state.feedback?.[agentName];
+    await this.saveState(projectId, state);
+    this.emit('agent-approved', { projectId, agent: agentName });
+
+    if (state.awaitingApproval.length > 0) {
+      return;
+    }
+    const execution = this.executeAgentPipeline(projectId, { ...project, state });
+    release();
+    await execution;
+  }
+
+  // Drops the agents' outputs and files and marks the project running again
+  private async resetAgents(projectId: string, project: Project, agentNames: string[]): Promise<AgentState> {
+    const state = this.invalidate(project.state as AgentState | null, agentNames);
+    await storage.deleteProjectFiles(projectId, agentNames);
+    await this.saveState(projectId, state);
     await storage.updateProjectStatus(projectId, "running");
-    this.emit('project-resumed', { projectId });
-    
-    // Continue from where we left off
-    await this.executeAgentPipeline(projectId, project);
+    return state;
+  }
+
+  // Cancels or aborts the project's run and waits until it is recorded and its slot is free
+  private async haltRun(projectId: string) {
+    await this.queue.cancel(projectId);
+    this.activeRuns.get(projectId)?.controller.abort();
+    await this.executions.get(projectId)?.catch(() => undefined);
+  }
+
+  // The given agents plus every agent of the pipeline that depends on them, directly or not, in pipeline order
+  private downstreamOf(agents: AgentConfig[], agentNames: string[]): string[] {
+    const affected = new Set(agentNames);
+    for (const agentConfig of agents) {
+      if (agentConfig.dependencies.some(dep => affected.has(dep))) {
+        affected.add(agentConfig.name);
+      }
+    }
+    return agents.map(agentConfig => agentConfig.name).filter(name => affected.has(name));
+  }
+
+  private invalidate(previous: AgentState | null, agentNames: string[]): AgentState {
+    const state: AgentState = previous || {
+      currentAgent: null,
+      completedAgents: [],
+      agentProgress: {},
+      agentOutputs: {},
+      errors: []
+    };
+    state.completedAgents = state.completedAgents.filter(name => !agentNames.includes(name));
+    state.errors = state.errors.filter(error => !agentNames.includes(error.agent));
+    state.awaitingApproval = state.awaitingApproval?.filter(name => !agentNames.includes(name));
+    state.approvedAgents = state.approvedAgents?.filter(name => !agentNames.includes(name));
+    for (const name of agentNames) {
+      delete state.agentOutputs[name];
+      delete state.agentProgress[name];
+      delete state.feedback?.[name];
+    }
+    return state;
+  }
+
+  async resumeProject(projectId: string): Promise<void> {
+    const release = this.claim(projectId, "resume");
+    try {
+      // A paused run may still be finishing its last agents; continue once it has checkpointed
+      // them, recorded the run and given up its slot, from the state it left behind
+      await this.executions.get(projectId)?.catch(() => undefined);
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        throw new Error("Project not found");
+      }
+
+      this.emit('project-resumed', { projectId });
+      const execution = this.executeAgentPipeline(projectId, project);
+      release();
+      await execution;
+    } finally {
+      release();
+    }
+  }
+
+  // Called once on boot. Projects still marked running were cut off by the previous process:
+  // their in-flight agents are recorded as interrupted and dropped from the checkpoint, then the
+  // run resumes. Queued projects rejoin the queue in their old place. Runs that need the user's
+  // API key (lost with the process) wait for a manual resume.
+  async recoverInterruptedRuns(): Promise<void> {
+    const autoResume = process.env.AUTO_RESUME_RUNS !== "off";
+    const projects = [
+      ...await storage.getProjectsByStatus("running"),
+      ...await storage.getProjectsByStatus("queued")
+    ];
+    await this.queue.forgetJobsExcept(projects.map(project => project.id));
+
+    for (const project of projects) {
+      if (this.activeRuns.has(project.id)) {
+        continue;
+      }
+
+      const state = project.state as AgentState | null;
+      if (state) {
+        const interrupted = state.runningAgents?.length
+          ? state.runningAgents
+          : state.currentAgent ? [state.currentAgent] : [];
+        for (const agentName of interrupted) {
+          state.errors.push({
+            agent: agentName,
+            error: "Interrupted by a server restart",
+            timestamp: new Date().toISOString()
+          });
+          await this.addLog({
+            projectId: project.id,
+            agentName,
+            level: "warn",
+            message: "Run was interrupted by a server restart; this agent will run again on resume"
+          });
+        }
+        state.runningAgents = [];
+        state.currentAgent = null;
+        await this.saveState(project.id, state);
+      }
+
+      if (autoResume && !requiresApiKey(project.config)) {
+        this.emit('project-recovered', { projectId: project.id, resumed: true });
+        this.resumeProject(project.id).catch(error => {
+          console.error(`Resuming interrupted project ${project.id} failed:`, error);
+        });
+      } else {
+        await storage.updateProjectStatus(project.id, "paused");
+        this.emit('project-recovered', { projectId: project.id, resumed: false });
+      }
+    }
+  }
+
+  getQueue() {
+    return this.queue.snapshot();
   }
 
   getAgentConfigs(): AgentConfig[] {
     return this.agentConfigs;
   }
+
+  // Server-wide model routing; projects can override it under `config.llm.routing`
+  async getRouting(): Promise<RoutingTable> {
+    const routes = await storage.getAgentRoutes();
+    return Object.fromEntries(routes.map(route => [route.agent, route.routing]));
+  }
+
+  async setAgentRouting(agentName: string, routing: AgentRouting): Promise<void> {
+    if (agentName !== "default" && !this.registry.has(agentName)) {
+      throw new Error(`Agent ${agentName} not found`);
+    }
+    await storage.setAgentRoute(agentName, routing);
+  }
 }
 
 export const agentOrchestrator = new AgentOrchestrator();
\ No newline at end of file
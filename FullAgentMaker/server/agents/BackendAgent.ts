@@ -1,8 +1,7 @@
-import { BaseAgent, AgentResult } from "./AgentOrchestrator";
-import { geminiService } from "../gemini";
+import { BaseAgent, AgentResult, AgentContext } from "./BaseAgent";
 
 export class BackendAgent extends BaseAgent {
-  async execute(projectId: string, config: any, previousOutputs: Record<string, any>): Promise<AgentResult> {
+  async execute(projectId: string, config: any, previousOutputs: Record<string, any>, context: AgentContext): Promise<AgentResult> {
     try {
       await this.log(projectId, "info", "Starting backend development...");
       await this.updateProgress(projectId, 10);
@@ -12,20 +11,6 @@ export class BackendAgent extends BaseAgent {
         throw new Error("Requirements not found from previous agent");
       }
 
-      // Check if backend is needed
-      const needsBackend = this.checkIfBackendNeeded(config, requirements);
-      
-      if (!needsBackend) {
-        await this.log(projectId, "info", "Backend not required for this project type");
-        return {
-          success: true,
-          output: {
-            type: "frontend-only",
-            message: "No backend required"
-          }
-        };
-      }
-
       const prompt = `
 Based on the following technical specification, generate a complete Node.js backend application:
 
@@ -60,7 +45,11 @@ Focus on:
 
       const systemInstruction = `You are a senior backend developer. Generate complete, production-ready Node.js/Express backend code with TypeScript. Include proper error handling, validation, security measures, and follow REST API best practices. All code should be well-structured and follow Node.js conventions.`;
 
-      const response = await geminiService.generateContent(prompt, systemInstruction);
+      const response = await context.llm.generateContentStream(
+        this.withFeedback(prompt, context),
+        systemInstruction,
+        chunk => this.streamOutput(projectId, chunk)
+      );
 
       if (!response.success) {
         throw new Error(response.error || "Failed to generate backend code");
@@ -94,21 +83,6 @@ Focus on:
     }
   }
 
-  private checkIfBackendNeeded(config: any, requirements: any): boolean {
-    // Check if backend features are required
-    const backendKeywords = [
-      'database', 'api', 'authentication', 'auth', 'login', 'register',
-      'server', 'backend', 'storage', 'persistence', 'user management'
-    ];
-
-    const description = (config.description || '').toLowerCase();
-    const specification = (requirements.specification || '').toLowerCase();
-    
-    return backendKeywords.some(keyword => 
-      description.includes(keyword) || specification.includes(keyword)
-    ) || config.database !== 'none' || (config.features && config.features.length > 0);
-  }
-
   private parseCodeIntoFiles(content: string, config: any): Array<{ path: string; content: string; language: string }> {
     const files: Array<{ path: string; content: string; language: string }> = [];
     
@@ -0,0 +1,83 @@
+import { LLM_ERROR_KINDS, type LLMProvider } from "../llm";
+import type { InsertAgentLog, ReviewFeedback } from "@shared/schema";
+import type { AgentOrchestrator } from "./AgentOrchestrator";
+
+// Why an attempt failed: it ran out of time, an LLM call failed with this kind, or the agent itself failed
+export const AGENT_FAILURE_KINDS = ["timeout", "error", ...LLM_ERROR_KINDS] as const;
+export type AgentFailureKind = (typeof AGENT_FAILURE_KINDS)[number];
+
+export interface AgentConfig {
+  name: string;
+  description: string;
+  dependencies: string[];
+  timeoutMs?: number;             // per attempt
+  maxAttempts?: number;           // defaults to 1
+  retryOn?: AgentFailureKind[];   // defaults to timeouts, rate limits and server errors
+}
+
+export interface AgentResult {
+  success: boolean;
+  output?: any;
+  error?: string;
+  files?: Array<{ path: string; content: string; language?: string }>;
+}
+
+export interface AgentContext {
+  llm: LLMProvider;
+  signal: AbortSignal; // aborted when the run is stopped
+  feedback?: ReviewFeedback; // set when a reviewer rejected this agent's last output
+}
+
+// Keeps revision prompts within reason when the rejected output was large
+const MAX_PREVIOUS_OUTPUT_CHARS = 20000;
+
+export abstract class BaseAgent {
+  constructor(
+    protected name: string,
+    protected orchestrator: AgentOrchestrator
+  ) {}
+
+  abstract execute(projectId: string, config: any, previousOutputs: Record<string, any>, context: AgentContext): Promise<AgentResult>;
+
+  protected async log(projectId: string, level: "info" | "warn" | "error" | "success", message: string, metadata?: any) {
+    const logEntry: InsertAgentLog = {
+      projectId,
+      agentName: this.name,
+      level,
+      message,
+      metadata
+    };
+    
+    await this.orchestrator.addLog(logEntry);
+  }
+
+  // After a rejection, asks the model to revise its previous output rather than start over
+  protected withFeedback(prompt: string, context: AgentContext): string {
+    if (!context.feedback) {
+      return prompt;
+    }
+    const { feedback, previousOutput } = context.feedback;
+    const previous = typeof previousOutput === "string" ? previousOutput : JSON.stringify(previousOutput, null, 2);
+
+    return `${prompt}
+A reviewer rejected your previous output for this step.
+
+Previous output:
+${(previous || "").slice(0, MAX_PREVIOUS_OUTPUT_CHARS)}
+
+Reviewer feedback:
+${feedback}
+
+Revise the output so it addresses the feedback.
+`;
+  }
+
+  // Partial model output, forwarded to the dashboard as it arrives
+  protected streamOutput(projectId: string, chunk: string) {
+    this.orchestrator.emit('agent-stream', { projectId, agent: this.name, chunk });
+  }
+
+  protected async updateProgress(projectId: string, progress: number) {
+    this.orchestrator.emit('progress', { agent: this.name, progress });
+  }
+}
@@ -0,0 +1,116 @@
+import { z } from "zod";
+import { BaseAgent, AGENT_FAILURE_KINDS, type AgentResult, type AgentContext } from "./BaseAgent";
+import type { AgentOrchestrator } from "./AgentOrchestrator";
+
+// An agent described in data: a prompt template over the project config and earlier outputs,
+// and how to read the model's answer
+export const declarativeAgentSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().default(""),
+  dependencies: z.array(z.string()).default([]),
+  before: z.array(z.string()).optional(),
+  inputs: z.array(z.string()).default([]), // agents whose outputs the prompt uses
+  systemInstruction: z.string().optional(),
+  prompt: z.string().min(1),               // {{config.description}}, {{outputs.Requirement.specification}}, ...
+  output: z.enum(["text", "json", "files"]).default("text"),
+  schema: z.record(z.any()).optional(),    // response schema when output is "json"
+  timeoutMs: z.number().int().positive().optional(),
+  maxAttempts: z.number().int().positive().optional(),
+  retryOn: z.array(z.enum(AGENT_FAILURE_KINDS)).optional(),
+});
+
+export type DeclarativeAgentDefinition = z.infer<typeof declarativeAgentSchema>;
+
+const LANGUAGES: Record<string, string> = {
+  ts: "typescript",
+  tsx: "typescript",
+  js: "javascript",
+  jsx: "javascript",
+  json: "json",
+  css: "css",
+  md: "markdown",
+  html: "html",
+  sql: "sql"
+};
+
+export class DeclarativeAgent extends BaseAgent {
+  constructor(name: string, orchestrator: AgentOrchestrator, private definition: DeclarativeAgentDefinition) {
+    super(name, orchestrator);
+  }
+
+  async execute(projectId: string, config: any, previousOutputs: Record<string, any>, context: AgentContext): Promise<AgentResult> {
+    const { definition } = this;
+    try {
+      await this.log(projectId, "info", `Starting ${definition.description || this.name}...`);
+      await this.updateProgress(projectId, 10);
+
+      const inputs = Object.fromEntries(definition.inputs.map(name => [name, previousOutputs[name]]));
+      const prompt = this.withFeedback(renderTemplate(definition.prompt, { config, outputs: inputs }), context);
+
+      await this.updateProgress(projectId, 30);
+
+      let result: AgentResult;
+      if (definition.output === "json") {
+        const response = await context.llm.generateStructuredContent<any>(
+          prompt,
+          definition.schema || { type: "object" },
+          definition.systemInstruction
+        );
+        if (!response.success) {
+          throw new Error(response.error || "Failed to generate structured output");
+        }
+        result = { success: true, output: response.data };
+      } else {
+        const response = await context.llm.generateContentStream(
+          prompt,
+          definition.systemInstruction,
+          chunk => this.streamOutput(projectId, chunk)
+        );
+        if (!response.success) {
+          throw new Error(response.error || "Failed to generate output");
+        }
+        result = definition.output === "files"
+          ? { success: true, output: { content: response.content }, files: parseFiles(response.content) }
+          : { success: true, output: { content: response.content } };
+      }
+
+      await this.log(projectId, "success", `${this.name} completed${result.files ? ` with ${result.files.length} files` : ""}`);
+      await this.updateProgress(projectId, 100);
+      return result;
+
+    } catch (error: any) {
+      await this.log(projectId, "error", `${this.name} failed: ${error.message}`);
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  }
+}
+
+// Replaces {{dotted.path}} with the value found there; objects are inlined as JSON
+export function renderTemplate(template: string, values: Record<string, any>): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, key: string) => {
+    const value = key.split(".").reduce<any>((current, part) => current?.[part], values);
+    if (value === undefined || value === null) {
+      return "";
+    }
+    return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+  });
+}
+
+// Fenced blocks whose info string names a path, e.g. ```ts src/utils/date.ts
+function parseFiles(content: string): Array<{ path: string; content: string; language?: string }> {
+  const files: Array<{ path: string; content: string; language?: string }> = [];
+  const fence = /```[^\n]*?([\w./-]+\.(\w+))[^\n]*\n([\s\S]*?)```/g;
+  let match: RegExpExecArray | null;
+  while ((match = fence.exec(content)) !== null) {
+    const [, filePath, extension, body] = match;
+    files.push({
+      path: filePath.startsWith("/") ? filePath : `/${filePath}`,
+      content: body.replace(/\n$/, ""),
+      language: LANGUAGES[extension]
+    });
+  }
+  return files;
+}
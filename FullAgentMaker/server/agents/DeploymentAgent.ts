@@ -1,8 +1,8 @@
-import { BaseAgent, AgentResult } from "./AgentOrchestrator";
+import { BaseAgent, AgentResult, AgentContext } from "./BaseAgent";
 import { storage } from "../storage";
 
 export class DeploymentAgent extends BaseAgent {
-  async execute(projectId: string, config: any, previousOutputs: Record<string, any>): Promise<AgentResult> {
+  async execute(projectId: string, config: any, previousOutputs: Record<string, any>, context: AgentContext): Promise<AgentResult> {
     try {
       await this.log(projectId, "info", "Starting project packaging...");
       await this.updateProgress(projectId, 10);
@@ -11,8 +11,8 @@ export class DeploymentAgent extends BaseAgent {
       const frontendOutput = previousOutputs.Frontend;
       const backendOutput = previousOutputs.Backend;
 
-      if (!validatorOutput || !frontendOutput) {
-        throw new Error("Required outputs not found from previous agents");
+      if (!validatorOutput) {
+        throw new Error("Validator output not found from previous agent");
       }
 
       await this.updateProgress(projectId, 30);
@@ -124,6 +124,7 @@ export class DeploymentAgent extends BaseAgent {
   }
 
   private generateDeploymentDocs(config: any, deploymentPackage: any) {
+    const hasFrontend = deploymentPackage.structure.frontend.length > 0;
     const hasBackend = deploymentPackage.structure.backend.length > 0;
     
     const readme = `# ${config.projectName}
@@ -134,7 +135,7 @@ ${config.description}
 
 This project was automatically generated using AI agents specialized in:
 - ✅ Requirement Analysis
-- ✅ Frontend Development (React + TypeScript)
+${hasFrontend ? '- ✅ Frontend Development (React + TypeScript)' : '- ⚪ Frontend (Not Required)'}
 ${hasBackend ? '- ✅ Backend Development (Node.js + Express)' : '- ⚪ Backend (Not Required)'}
 - ✅ Code Validation & Quality Assurance
 - ✅ Deployment Packaging
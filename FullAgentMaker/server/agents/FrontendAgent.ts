@@ -1,8 +1,7 @@
-import { BaseAgent, AgentResult } from "./AgentOrchestrator";
-import { geminiService } from "../gemini";
+import { BaseAgent, AgentResult, AgentContext } from "./BaseAgent";
 
 export class FrontendAgent extends BaseAgent {
-  async execute(projectId: string, config: any, previousOutputs: Record<string, any>): Promise<AgentResult> {
+  async execute(projectId: string, config: any, previousOutputs: Record<string, any>, context: AgentContext): Promise<AgentResult> {
     try {
       await this.log(projectId, "info", "Starting frontend development...");
       await this.updateProgress(projectId, 10);
@@ -42,7 +41,11 @@ Focus on:
 
       const systemInstruction = `You are a senior React developer. Generate complete, production-ready React components with TypeScript. Use modern patterns, include proper TypeScript types, implement error handling, and ensure responsive design. All code should be clean, well-structured, and follow React best practices.`;
 
-      const response = await geminiService.generateContent(prompt, systemInstruction);
+      const response = await context.llm.generateContentStream(
+        this.withFeedback(prompt, context),
+        systemInstruction,
+        chunk => this.streamOutput(projectId, chunk)
+      );
 
       if (!response.success) {
         throw new Error(response.error || "Failed to generate frontend code");
@@ -1,8 +1,7 @@
-import { BaseAgent, AgentResult } from "./AgentOrchestrator";
-import { geminiService } from "../gemini";
+import { BaseAgent, AgentResult, AgentContext } from "./BaseAgent";
 
 export class RequirementAgent extends BaseAgent {
-  async execute(projectId: string, config: any, previousOutputs: Record<string, any>): Promise<AgentResult> {
+  async execute(projectId: string, config: any, previousOutputs: Record<string, any>, context: AgentContext): Promise<AgentResult> {
     try {
       await this.log(projectId, "info", "Starting requirement analysis...");
       await this.updateProgress(projectId, 10);
@@ -31,7 +30,7 @@ Format your response as a comprehensive technical specification document.
 
       const systemInstruction = `You are a senior technical architect. Analyze the user requirements and create a detailed, implementable technical specification. Be specific about technologies, architecture patterns, and implementation details.`;
 
-      const response = await geminiService.generateContent(prompt, systemInstruction);
+      const response = await context.llm.generateContent(this.withFeedback(prompt, context), systemInstruction);
 
       if (!response.success) {
         throw new Error(response.error || "Failed to analyze requirements");
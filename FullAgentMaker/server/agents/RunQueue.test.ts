@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { RunQueue, queueLimitsFromEnv } from "./RunQueue";
+
+describe("queueLimitsFromEnv", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("reads both limits from the environment", () => {
+    vi.stubEnv("MAX_CONCURRENT_RUNS", "8");
+    vi.stubEnv("MAX_RUNS_PER_OWNER", "3");
+    expect(queueLimitsFromEnv()).toEqual({ maxRuns: 8, maxRunsPerOwner: 3 });
+  });
+
+  it("falls back to the defaults for values that are not positive integers", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.stubEnv("MAX_CONCURRENT_RUNS", "four");
+    vi.stubEnv("MAX_RUNS_PER_OWNER", "0");
+    expect(queueLimitsFromEnv()).toEqual({ maxRuns: 4, maxRunsPerOwner: 2 });
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("RunQueue", () => {
+  let queue: RunQueue;
+  let tickets: Map<string, Promise<boolean>>;
+
+  // Queues each project for its owner, in order, and keeps whether it was let in
+  async function enqueue(...jobs: Array<[projectId: string, ownerId: string]>) {
+    for (const [projectId, ownerId] of jobs) {
+      const ticket = await queue.acquire(projectId, ownerId);
+      tickets.set(projectId, ticket.admitted);
+    }
+  }
+
+  const running = () => queue.snapshot().running.map(job => job.projectId).sort();
+  const queued = () => queue.snapshot().queued.map(job => job.projectId);
+
+  function createQueue(maxRuns: number, maxRunsPerOwner: number) {
+    queue = new RunQueue({ maxRuns, maxRunsPerOwner }, () => undefined);
+    tickets = new Map();
+  }
+
+  afterEach(async () => {
+    for (const projectId of queued()) {
+      await queue.cancel(projectId);
+    }
+    for (const projectId of running()) {
+      await queue.release(projectId);
+    }
+  });
+
+  it("admits jobs while slots are free and the rest in the order they queued", async () => {
+    createQueue(2, 4);
+    await enqueue(["order-1", "alice"], ["order-2", "alice"], ["order-3", "alice"], ["order-4", "alice"]);
+    expect(running()).toEqual(["order-1", "order-2"]);
+    expect(queued()).toEqual(["order-3", "order-4"]);
+
+    await queue.release("order-2");
+    expect(running()).toEqual(["order-1", "order-3"]);
+    await queue.release("order-1");
+    expect(running()).toEqual(["order-3", "order-4"]);
+    expect(await tickets.get("order-4")).toBe(true);
+  });
+
+  it("holds an owner at their limit back while other owners' jobs take the free slots", async () => {
+    createQueue(3, 2);
+    await enqueue(["limit-a1", "alice"], ["limit-a2", "alice"], ["limit-a3", "alice"], ["limit-b1", "bob"]);
+    expect(running()).toEqual(["limit-a1", "limit-a2", "limit-b1"]);
+    expect(queued()).toEqual(["limit-a3"]);
+
+    await queue.release("limit-b1");
+    expect(queued()).toEqual(["limit-a3"]);
+    await queue.release("limit-a1");
+    expect(running()).toEqual(["limit-a2", "limit-a3"]);
+  });
+
+  it("gives a free slot to the owner with the fewest running jobs, then the one served least recently", async () => {
+    createQueue(2, 2);
+    await enqueue(
+      ["fair-a1", "alice"], ["fair-a2", "alice"], ["fair-a3", "alice"], ["fair-a4", "alice"],
+      ["fair-b1", "bob"], ["fair-c1", "carol"]
+    );
+    expect(queued()).toEqual(["fair-b1", "fair-c1", "fair-a3", "fair-a4"]);
+
+    // Bob and Carol run nothing, so both go ahead of Alice's earlier jobs
+    await queue.release("fair-a1");
+    expect(running()).toEqual(["fair-a2", "fair-b1"]);
+    await queue.release("fair-a2");
+    expect(running()).toEqual(["fair-b1", "fair-c1"]);
+
+    // Everyone is down to one job or none; Alice was served longest ago
+    await queue.release("fair-b1");
+    expect(running()).toEqual(["fair-a3", "fair-c1"]);
+  });
+
+  it("lets a cancelled job go without admitting it and refuses a project already in line", async () => {
+    createQueue(1, 1);
+    await enqueue(["cancel-1", "alice"], ["cancel-2", "bob"]);
+    await expect(queue.acquire("cancel-2", "bob")).rejects.toThrow("Project is already queued or running");
+
+    expect(await queue.cancel("cancel-2")).toBe(true);
+    expect(await tickets.get("cancel-2")).toBe(false);
+    expect(queued()).toEqual([]);
+  });
+});
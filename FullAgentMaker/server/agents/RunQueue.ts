@@ -0,0 +1,192 @@
+import { storage } from "../storage";
+import { positiveIntFromEnv } from "../env";
+import type { RunJob } from "@shared/schema";
+import { ProjectConflictError } from "./errors";
+
+export interface QueueLimits {
+  maxRuns: number;        // pipelines running at once across the server
+  maxRunsPerOwner: number; // how many of those one owner may hold
+}
+
+export function queueLimitsFromEnv(): QueueLimits {
+  return {
+    maxRuns: positiveIntFromEnv("MAX_CONCURRENT_RUNS", 4),
+    maxRunsPerOwner: positiveIntFromEnv("MAX_RUNS_PER_OWNER", 2)
+  };
+}
+
+export interface QueueTicket {
+  position: number; // 0 when the run got a slot straight away
+  only?: string[];  // the caller's, or the one a job persisted before a restart was limited to
+  admitted: Promise<boolean>; // false when the job is cancelled before it gets a slot
+}
+
+interface WaitingJob {
+  job: RunJob;
+  admit: (admitted: boolean) => void;
+}
+
+// Hands out run slots. Jobs are persisted so a restart keeps their place in line. The owner with
+// the fewest running jobs goes next; among equals the one served least recently, then the job
+// that has waited longest.
+export class RunQueue {
+  private waiting: WaitingJob[] = [];
+  private running: Map<string, RunJob> = new Map();
+  // When each owner last got a slot, as a counter of admissions
+  private served: Map<string, number> = new Map();
+  private admissions = 0;
+
+  constructor(
+    private limits: QueueLimits,
+    // Called with every waiting project's position whenever the line moves
+    private onReorder: (positions: Map<string, number>) => void
+  ) {}
+
+  has(projectId: string): boolean {
+    return this.running.has(projectId) || this.isWaiting(projectId);
+  }
+
+  // In line for a slot, as opposed to holding one
+  isWaiting(projectId: string): boolean {
+    return this.waiting.some(entry => entry.job.projectId === projectId);
+  }
+
+  async acquire(projectId: string, ownerId: string, only?: string[]): Promise<QueueTicket> {
+    if (this.has(projectId)) {
+      throw new ProjectConflictError("Project is already queued or running");
+    }
+
+    const persisted = (await storage.getRunJobs()).find(job => job.projectId === projectId);
+    let job: RunJob;
+    if (persisted) {
+      job = { ...persisted, status: "queued", only: only ?? persisted.only, startedAt: null };
+      await storage.updateRunJob(job.id, { status: job.status, only: job.only, startedAt: null });
+    } else {
+      job = await storage.addRunJob({ projectId, ownerId, only });
+    }
+    if (this.has(projectId)) {
+      throw new ProjectConflictError("Project is already queued or running");
+    }
+
+    let admit!: (admitted: boolean) => void;
+    const admitted = new Promise<boolean>(resolve => { admit = resolve; });
+    this.waiting.push({ job, admit });
+    this.waiting.sort((a, b) => a.job.createdAt.getTime() - b.job.createdAt.getTime());
+    await this.pump();
+
+    return {
+      position: this.positions().get(projectId) || 0,
+      only: (job.only as string[] | null) || undefined,
+      admitted
+    };
+  }
+
+  // Frees the project's slot once its run has settled
+  async release(projectId: string): Promise<void> {
+    const job = this.running.get(projectId);
+    if (!job) {
+      return;
+    }
+    this.running.delete(projectId);
+    await storage.deleteRunJob(job.id);
+    await this.pump();
+  }
+
+  // Drops a job that is still waiting; false when the project holds a slot or isn't queued
+  async cancel(projectId: string): Promise<boolean> {
+    const entry = this.waiting.find(waiting => waiting.job.projectId === projectId);
+    if (!entry) {
+      return false;
+    }
+    this.waiting = this.waiting.filter(waiting => waiting !== entry);
+    entry.admit(false);
+    await storage.deleteRunJob(entry.job.id);
+    this.onReorder(this.positions());
+    return true;
+  }
+
+  // Persisted jobs of projects that won't run again, e.g. ones finished before a crash
+  async forgetJobsExcept(projectIds: string[]): Promise<void> {
+    for (const job of await storage.getRunJobs()) {
+      if (!projectIds.includes(job.projectId) && !this.has(job.projectId)) {
+        await storage.deleteRunJob(job.id);
+      }
+    }
+  }
+
+  // Estimated, 1-based: owners ahead in line may still finish early or be held back by their limit
+  positions(): Map<string, number> {
+    const counts = this.runningCounts();
+    const served = new Map(this.served);
+    const remaining = [...this.waiting];
+    const positions = new Map<string, number>();
+    while (remaining.length > 0) {
+      const next = this.nextJob(remaining, counts, served, false)!;
+      remaining.splice(remaining.indexOf(next), 1);
+      counts.set(next.job.ownerId, (counts.get(next.job.ownerId) || 0) + 1);
+      served.set(next.job.ownerId, this.admissions + positions.size + 1);
+      positions.set(next.job.projectId, positions.size + 1);
+    }
+    return positions;
+  }
+
+  snapshot() {
+    const positions = this.positions();
+    return {
+      limits: this.limits,
+      running: Array.from(this.running.values()),
+      queued: this.waiting
+        .map(entry => ({ ...entry.job, position: positions.get(entry.job.projectId)! }))
+        .sort((a, b) => a.position - b.position)
+    };
+  }
+
+  private async pump(): Promise<void> {
+    const admitted: RunJob[] = [];
+    while (this.running.size < this.limits.maxRuns) {
+      const next = this.nextJob(this.waiting, this.runningCounts(), this.served, true);
+      if (!next) {
+        break;
+      }
+      this.served.set(next.job.ownerId, ++this.admissions);
+      this.waiting = this.waiting.filter(entry => entry !== next);
+      const job: RunJob = { ...next.job, status: "running", startedAt: new Date() };
+      this.running.set(job.projectId, job);
+      admitted.push(job);
+      next.admit(true);
+    }
+
+    for (const job of admitted) {
+      await storage.updateRunJob(job.id, { status: job.status, startedAt: job.startedAt });
+    }
+    this.onReorder(this.positions());
+  }
+
+  private nextJob(
+    waiting: WaitingJob[],
+    counts: Map<string, number>,
+    served: Map<string, number>,
+    enforceLimit: boolean
+  ): WaitingJob | undefined {
+    const rank = (entry: WaitingJob) => [counts.get(entry.job.ownerId) || 0, served.get(entry.job.ownerId) || 0];
+    let best: WaitingJob | undefined;
+    for (const entry of waiting) {
+      const [count, lastServed] = rank(entry);
+      if (enforceLimit && count >= this.limits.maxRunsPerOwner) {
+        continue;
+      }
+      // `waiting` is oldest first, so strict comparisons keep the longest-waiting job among equals
+      const [bestCount, bestServed] = best ? rank(best) : [Infinity, Infinity];
+      if (count < bestCount || (count === bestCount && lastServed < bestServed)) {
+        best = entry;
+      }
+    }
+    return best;
+  }
+
+  private runningCounts(): Map<string, number> {
+    const counts = new Map<string, number>();
+    this.running.forEach(job => counts.set(job.ownerId, (counts.get(job.ownerId) || 0) + 1));
+    return counts;
+  }
+}
@@ -1,8 +1,8 @@
-import { BaseAgent, AgentResult } from "./AgentOrchestrator";
-import { geminiService } from "../gemini";
+import { BaseAgent, AgentResult, AgentContext } from "./BaseAgent";
+import type { LLMProvider } from "../llm";
 
 export class ValidatorAgent extends BaseAgent {
-  async execute(projectId: string, config: any, previousOutputs: Record<string, any>): Promise<AgentResult> {
+  async execute(projectId: string, config: any, previousOutputs: Record<string, any>, context: AgentContext): Promise<AgentResult> {
     try {
       await this.log(projectId, "info", "Starting code validation...");
       await this.updateProgress(projectId, 10);
@@ -10,15 +10,17 @@ export class ValidatorAgent extends BaseAgent {
       const frontendOutput = previousOutputs.Frontend;
       const backendOutput = previousOutputs.Backend;
 
-      if (!frontendOutput) {
-        throw new Error("Frontend output not found from previous agent");
+      // The project's pipeline decides which of the two ran; at least one must have
+      if (!frontendOutput && !backendOutput) {
+        throw new Error("Neither frontend nor backend output found from previous agents");
       }
 
       // Collect all generated code for validation
       const codeToValidate = {
-        frontend: frontendOutput.codeGenerated || '',
+        frontend: frontendOutput?.codeGenerated || '',
         backend: backendOutput?.codeGenerated || '',
-        hasBackend: backendOutput?.type !== 'frontend-only'
+        hasFrontend: !!frontendOutput,
+        hasBackend: !!backendOutput
       };
 
       await this.updateProgress(projectId, 30);
@@ -26,8 +28,10 @@ export class ValidatorAgent extends BaseAgent {
       const validationPrompt = `
 Please perform a comprehensive code review and validation of the following generated code:
 
+${codeToValidate.hasFrontend ? `
 FRONTEND CODE:
 ${codeToValidate.frontend}
+` : 'NO FRONTEND - API only application'}
 
 ${codeToValidate.hasBackend ? `
 BACKEND CODE:
@@ -56,7 +60,7 @@ Provide:
 
       const systemInstruction = `You are a senior code reviewer and quality assurance engineer. Perform a thorough code review focusing on security, performance, maintainability, and best practices. Identify critical issues that could cause runtime errors or security vulnerabilities. Provide specific, actionable feedback.`;
 
-      const response = await geminiService.generateContent(validationPrompt, systemInstruction);
+      const response = await context.llm.generateContent(this.withFeedback(validationPrompt, context), systemInstruction);
 
       if (!response.success) {
         throw new Error(response.error || "Failed to validate code");
@@ -74,7 +78,7 @@ Provide:
         await this.log(projectId, "warn", `Found ${validationResults.criticalIssues.length} critical issues that need fixing`);
         
         // Attempt to generate fixes for critical issues
-        const fixes = await this.generateFixes(validationResults.criticalIssues, codeToValidate);
+        const fixes = await this.generateFixes(validationResults.criticalIssues, codeToValidate, context.llm);
         
         await this.updateProgress(projectId, 90);
         
@@ -157,7 +161,7 @@ Provide:
     return results;
   }
 
-  private async generateFixes(criticalIssues: string[], codeToValidate: any): Promise<Array<{ path: string; content: string; language: string }>> {
+  private async generateFixes(criticalIssues: string[], codeToValidate: any, llm: LLMProvider): Promise<Array<{ path: string; content: string; language: string }>> {
     if (criticalIssues.length === 0) {
       return [];
     }
@@ -170,13 +174,14 @@ ${criticalIssues.map((issue, index) => `${index + 1}. ${issue}`).join('\n')}
 
 Original code context:
 ${codeToValidate.frontend}
+${codeToValidate.backend}
 
 Please generate fixes for these critical issues. Provide the corrected code files with the fixes applied. Focus only on fixing the critical issues without changing the overall structure or functionality.
 `;
 
       const systemInstruction = `You are a senior developer fixing critical code issues. Generate only the corrected files that fix the specific issues mentioned. Maintain the original functionality while addressing security, error handling, and critical bugs.`;
 
-      const response = await geminiService.generateContent(fixPrompt, systemInstruction);
+      const response = await llm.generateContent(fixPrompt, systemInstruction);
 
       if (response.success && response.content) {
         return this.parseFixedFiles(response.content);
@@ -0,0 +1,8 @@
+// The project is not in a state that allows the request, like starting it while it runs. It says
+// nothing about the project itself, so it is answered with 409 and never marks the project failed.
+export class ProjectConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectConflictError";
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { defaultPipeline } from "./pipelines";
+
+describe("defaultPipeline", () => {
+  const frontendOnly = { stack: "react", database: "none", features: [], description: "A landing page with a pricing table" };
+
+  it("leaves the backend out of a frontend project that needs none", () => {
+    expect(defaultPipeline(frontendOnly)).toBe("static");
+  });
+
+  it("adds the backend for a database, features or a description that asks for one", () => {
+    expect(defaultPipeline({ ...frontendOnly, database: "postgresql" })).toBe("fullstack");
+    expect(defaultPipeline({ ...frontendOnly, features: ["CRUD operations"] })).toBe("fullstack");
+    expect(defaultPipeline({ ...frontendOnly, description: "A landing page with a Login form" })).toBe("fullstack");
+    expect(defaultPipeline({ stack: "react" })).toBe("fullstack");
+  });
+
+  it("runs a node project as an API", () => {
+    expect(defaultPipeline({ ...frontendOnly, stack: "node" })).toBe("api");
+  });
+});
@@ -0,0 +1,75 @@
+import type { PipelineDefinition } from "@shared/schema";
+import type { AgentConfig } from "./BaseAgent";
+import { sortByDependencies } from "./registry";
+
+export interface PipelinePreset {
+  name: string;
+  description: string;
+  omit: string[]; // registered agents the preset leaves out, along with dependencies on them
+}
+
+export const pipelinePresets: PipelinePreset[] = [
+  { name: "fullstack", description: "Frontend and backend, validated and packaged together", omit: [] },
+  { name: "static", description: "Static site without a backend", omit: ["Backend"] },
+  { name: "api", description: "API server without a frontend", omit: ["Frontend"] },
+];
+
+// Words in a description that call for a server
+const BACKEND_KEYWORDS = [
+  "database", "api", "authentication", "auth", "login", "register",
+  "server", "backend", "storage", "persistence", "user management"
+];
+
+// A project needs a backend when it has a database, asks for features or describes server work
+function needsBackend(config: any): boolean {
+  const description = String(config?.description || "").toLowerCase();
+  return config?.database !== "none"
+    || (Array.isArray(config?.features) && config.features.length > 0)
+    || BACKEND_KEYWORDS.some(keyword => description.includes(keyword));
+}
+
+// Projects that don't pick a pipeline get one from their stack, and a frontend stack only gets
+// the Backend agent when the project needs one
+export function defaultPipeline(config: any): PipelineDefinition {
+  if (config?.stack === "node") {
+    return "api";
+  }
+  return needsBackend(config) ? "fullstack" : "static";
+}
+
+// The agents a project runs, in dependency order. Presets apply to every registered agent, plugins
+// included; explicit lists must contain every dependency they keep. Throws when the definition names
+// unknown agents or presets, misses a dependency or forms a cycle.
+export function resolvePipeline(definition: PipelineDefinition, registered: AgentConfig[]): AgentConfig[] {
+  if (typeof definition === "string") {
+    const preset = pipelinePresets.find(preset => preset.name === definition);
+    if (!preset) {
+      throw new Error(`Unknown pipeline: ${definition}`);
+    }
+    return registered
+      .filter(config => !preset.omit.includes(config.name))
+      .map(config => ({ ...config, dependencies: config.dependencies.filter(dep => !preset.omit.includes(dep)) }));
+  }
+
+  const entries = definition.agents.map(entry => typeof entry === "string" ? { name: entry } : entry);
+  const names = entries.map(entry => entry.name);
+  const unknown = names.filter(name => !registered.some(config => config.name === name));
+  if (unknown.length > 0) {
+    throw new Error(`Pipeline uses unknown agents: ${unknown.join(", ")}`);
+  }
+  const duplicates = names.filter((name, index) => names.indexOf(name) !== index);
+  if (duplicates.length > 0) {
+    throw new Error(`Pipeline lists agents more than once: ${Array.from(new Set(duplicates)).join(", ")}`);
+  }
+
+  const configs = entries.map(entry => {
+    const config = registered.find(config => config.name === entry.name)!;
+    const dependencies = entry.dependencies ?? config.dependencies;
+    const missing = dependencies.filter(dep => !names.includes(dep));
+    if (missing.length > 0) {
+      throw new Error(`Agent ${entry.name} depends on ${missing.join(", ")}, which the pipeline leaves out`);
+    }
+    return { ...config, dependencies: [...dependencies] };
+  });
+  return sortByDependencies(configs);
+}
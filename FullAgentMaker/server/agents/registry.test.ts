@@ -0,0 +1,99 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { AgentRegistry, loadAgentPlugins } from "./registry";
+import { DeclarativeAgent } from "./DeclarativeAgent";
+import type { AgentOrchestrator } from "./AgentOrchestrator";
+
+const tmpDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tmpDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+// Writes the manifest and any plugin modules into a fresh directory and returns the manifest path
+function writePlugins(manifest: object, modules: Record<string, string> = {}): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "agent-plugins-"));
+  tmpDirs.push(dir);
+  for (const [name, source] of Object.entries(modules)) {
+    fs.writeFileSync(path.join(dir, name), source);
+  }
+  const file = path.join(dir, "agents.json");
+  fs.writeFileSync(file, JSON.stringify(manifest));
+  return file;
+}
+
+function withRequirement(): AgentRegistry {
+  const registry = new AgentRegistry();
+  registry.register({
+    name: "Requirement",
+    description: "Analyzes requirements",
+    dependencies: [],
+    create: () => { throw new Error("not used"); }
+  });
+  return registry;
+}
+
+const reviewer = {
+  name: "Reviewer",
+  prompt: "Review {{outputs.Requirement.specification}}",
+  inputs: ["Requirement"],
+  maxAttempts: 2,
+  retryOn: ["timeout", "rate_limit"]
+};
+
+describe("loadAgentPlugins", () => {
+  it("registers module plugins and declarative agents in dependency order", async () => {
+    const manifest = writePlugins({ modules: ["./docs.mjs"], agents: [reviewer] }, {
+      "docs.mjs": `export function register(registry) {
+        registry.register({ name: "Docs", description: "Writes docs", dependencies: ["Requirement"], create: () => null });
+      }`
+    });
+    const registry = withRequirement();
+
+    await loadAgentPlugins(registry, manifest);
+
+    expect(registry.configs().map(config => config.name)).toEqual(["Requirement", "Docs", "Reviewer"]);
+    const config = registry.configs().find(config => config.name === "Reviewer");
+    expect(config).toMatchObject({ dependencies: ["Requirement"], maxAttempts: 2, retryOn: ["timeout", "rate_limit"] });
+    expect(registry.create("Reviewer", {} as AgentOrchestrator)).toBeInstanceOf(DeclarativeAgent);
+  });
+
+  it("does nothing without a manifest", async () => {
+    const registry = withRequirement();
+    await loadAgentPlugins(registry, undefined);
+    expect(registry.configs().map(config => config.name)).toEqual(["Requirement"]);
+  });
+
+  it("rejects a declarative agent that retries on an unknown failure kind", async () => {
+    const manifest = writePlugins({ agents: [{ ...reviewer, retryOn: ["rate-limit"] }] });
+    const registry = withRequirement();
+
+    await expect(loadAgentPlugins(registry, manifest)).rejects.toThrow(/retryOn/);
+    expect(registry.has("Reviewer")).toBe(false);
+  });
+
+  it("rejects a declarative agent without a prompt", async () => {
+    const manifest = writePlugins({ agents: [{ name: "Reviewer" }] });
+    await expect(loadAgentPlugins(withRequirement(), manifest)).rejects.toThrow(/prompt/);
+  });
+
+  it("rejects agents with unknown dependencies or a cycle and leaves the registry as it was", async () => {
+    const registry = withRequirement();
+
+    await expect(loadAgentPlugins(registry, writePlugins({ agents: [{ ...reviewer, inputs: ["Design"] }] })))
+      .rejects.toThrow("Agent Reviewer depends on unknown agents: Design");
+    await expect(loadAgentPlugins(registry, writePlugins({ agents: [{ ...reviewer, before: ["Requirement"] }] })))
+      .rejects.toThrow("Agent dependencies form a cycle between: Requirement, Reviewer");
+    expect(registry.configs().map(config => config.name)).toEqual(["Requirement"]);
+  });
+
+  it("rejects a module that exports no register function", async () => {
+    const manifest = writePlugins({ modules: ["./empty.mjs"] }, { "empty.mjs": "export const name = \"Docs\";" });
+    await expect(loadAgentPlugins(withRequirement(), manifest))
+      .rejects.toThrow("Agent plugin ./empty.mjs must export a register(registry) function");
+  });
+});
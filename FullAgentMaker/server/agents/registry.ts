@@ -0,0 +1,129 @@
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import type { AgentOrchestrator } from "./AgentOrchestrator";
+import type { BaseAgent, AgentConfig } from "./BaseAgent";
+import { DeclarativeAgent, declarativeAgentSchema } from "./DeclarativeAgent";
+
+export type AgentFactory = (name: string, orchestrator: AgentOrchestrator) => BaseAgent;
+
+export interface AgentRegistration extends AgentConfig {
+  create: AgentFactory;
+  before?: string[]; // already registered agents that should wait for this one
+}
+
+// What a plugin module exports, as its default export or as `register`
+export type AgentPlugin = (registry: AgentRegistry) => void | Promise<void>;
+
+// Contents of the file named by AGENT_PLUGINS; paths are relative to the file
+export interface AgentPluginManifest {
+  modules?: string[];
+  agents?: unknown[];
+}
+
+// Every agent the orchestrator can run, kept in dependency order
+export class AgentRegistry {
+  private entries: Map<string, { config: AgentConfig; create: AgentFactory }> = new Map();
+  private ordered: AgentConfig[] = [];
+
+  register(registration: AgentRegistration): void {
+    const { create, before = [], ...config } = registration;
+    if (this.entries.has(config.name)) {
+      throw new Error(`Agent ${config.name} is already registered`);
+    }
+
+    const entries = new Map(this.entries);
+    entries.set(config.name, { config: { ...config, dependencies: [...config.dependencies] }, create });
+    for (const target of before) {
+      const entry = entries.get(target);
+      if (!entry) {
+        throw new Error(`Agent ${config.name} is declared to run before unknown agent ${target}`);
+      }
+      entries.set(target, {
+        ...entry,
+        config: { ...entry.config, dependencies: [...entry.config.dependencies, config.name] }
+      });
+    }
+
+    // Sorting first means a bad registration leaves the registry untouched
+    this.ordered = sortByDependencies(Array.from(entries.values()).map(entry => entry.config));
+    this.entries = entries;
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  configs(): AgentConfig[] {
+    return this.ordered;
+  }
+
+  create(name: string, orchestrator: AgentOrchestrator): BaseAgent {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      throw new Error(`Agent ${name} not found`);
+    }
+    return entry.create(name, orchestrator);
+  }
+}
+
+// Reads the plugin manifest, imports its modules and registers its declarative agents
+export async function loadAgentPlugins(registry: AgentRegistry, manifestPath = process.env.AGENT_PLUGINS): Promise<void> {
+  if (!manifestPath) {
+    return;
+  }
+
+  const file = path.resolve(manifestPath);
+  const baseDir = path.dirname(file);
+  const manifest: AgentPluginManifest = JSON.parse(await fs.promises.readFile(file, "utf-8"));
+
+  for (const modulePath of manifest.modules || []) {
+    const module = await import(pathToFileURL(path.resolve(baseDir, modulePath)).href);
+    const register: AgentPlugin | undefined = module.default ?? module.register;
+    if (typeof register !== "function") {
+      throw new Error(`Agent plugin ${modulePath} must export a register(registry) function`);
+    }
+    await register(registry);
+  }
+
+  for (const raw of manifest.agents || []) {
+    const definition = declarativeAgentSchema.parse(raw);
+    registry.register({
+      name: definition.name,
+      description: definition.description,
+      // Agents whose outputs the prompt reads have to finish first
+      dependencies: Array.from(new Set([...definition.dependencies, ...definition.inputs])),
+      before: definition.before,
+      timeoutMs: definition.timeoutMs,
+      maxAttempts: definition.maxAttempts,
+      retryOn: definition.retryOn,
+      create: (name, orchestrator) => new DeclarativeAgent(name, orchestrator, definition)
+    });
+  }
+}
+
+// Stable topological order: among agents that are ready, the one registered first comes first
+export function sortByDependencies(configs: AgentConfig[]): AgentConfig[] {
+  const names = new Set(configs.map(config => config.name));
+  for (const config of configs) {
+    const unknown = config.dependencies.filter(dep => !names.has(dep));
+    if (unknown.length > 0) {
+      throw new Error(`Agent ${config.name} depends on unknown agents: ${unknown.join(", ")}`);
+    }
+  }
+
+  const ordered: AgentConfig[] = [];
+  const placed = new Set<string>();
+  while (ordered.length < configs.length) {
+    const next = configs.find(config =>
+      !placed.has(config.name) && config.dependencies.every(dep => placed.has(dep))
+    );
+    if (!next) {
+      const cycle = configs.filter(config => !placed.has(config.name)).map(config => config.name);
+      throw new Error(`Agent dependencies form a cycle between: ${cycle.join(", ")}`);
+    }
+    ordered.push(next);
+    placed.add(next.name);
+  }
+  return ordered;
+}
@@ -0,0 +1,12 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Connects to the Postgres database behind DATABASE_URL
+export function createDatabase(url: string) {
+  const pool = new Pool({ connectionString: url });
+  return drizzle({ client: pool, schema });
+}
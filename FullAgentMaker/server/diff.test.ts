@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import type { DiffLine } from "@shared/schema";
+import { diffLines, unifiedDiff, diffFileSets, DiffTooLargeError, MAX_DIFF_LINES } from "./diff";
+
+// Both sides back from a diff, and how many lines it adds or removes
+const oldSide = (lines: DiffLine[]) => lines.filter(line => line.type !== "added").map(line => line.text);
+const newSide = (lines: DiffLine[]) => lines.filter(line => line.type !== "removed").map(line => line.text);
+const edits = (lines: DiffLine[]) => lines.filter(line => line.type !== "context").length;
+
+// Fewest lines any diff of a and b has to add or remove, from their longest common subsequence
+function minimalEdits(a: string[], b: string[]): number {
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  return a.length + b.length - 2 * lcs[0][0];
+}
+
+const text = (lines: string[]) => lines.map(line => line + "\n").join("");
+
+describe("diffLines", () => {
+  it("numbers context, removed and added lines on their own side", () => {
+    expect(diffLines("a\nb\nc\n", "a\nx\nc\n")).toEqual([
+      { type: "context", oldLine: 1, newLine: 1, text: "a" },
+      { type: "removed", oldLine: 2, text: "b" },
+      { type: "added", newLine: 2, text: "x" },
+      { type: "context", oldLine: 3, newLine: 3, text: "c" }
+    ]);
+  });
+
+  it("treats a trailing newline as the end of the last line", () => {
+    expect(diffLines("", "")).toEqual([]);
+    expect(diffLines("a\n", "a")).toEqual([{ type: "context", oldLine: 1, newLine: 1, text: "a" }]);
+    expect(diffLines("", "a\nb\n").map(line => line.type)).toEqual(["added", "added"]);
+    expect(diffLines("a\nb\n", "").map(line => line.type)).toEqual(["removed", "removed"]);
+  });
+
+  it("finds a shortest edit for random revisions", () => {
+    let seed = 7;
+    const random = (limit: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % limit;
+    };
+    for (let round = 0; round < 300; round++) {
+      const a = Array.from({ length: random(30) }, () => "abcde"[random(5)]);
+      const b = Array.from({ length: random(30) }, () => "abcde"[random(5)]);
+      const lines = diffLines(text(a), text(b));
+
+      expect(oldSide(lines)).toEqual(a);
+      expect(newSide(lines)).toEqual(b);
+      expect(edits(lines)).toBe(minimalEdits(a, b));
+    }
+  });
+
+  it("rewrites large files in linear memory", () => {
+    const a = Array.from({ length: 8000 }, (_, i) => `old line ${i}`);
+    const b = Array.from({ length: 8000 }, (_, i) => `new line ${i}`);
+    const started = Date.now();
+    const lines = diffLines(text(a), text(b));
+
+    expect(edits(lines)).toBe(16000);
+    expect(newSide(lines)).toEqual(b);
+    expect(Date.now() - started).toBeLessThan(10_000);
+  });
+
+  it("refuses more lines than it compares", () => {
+    const half = text(Array.from({ length: MAX_DIFF_LINES / 2 + 1 }, (_, i) => `line ${i}`));
+    expect(() => diffLines(half, half)).toThrow(DiffTooLargeError);
+  });
+});
+
+describe("unifiedDiff", () => {
+  it("groups changes with overlapping context into hunks", () => {
+    const a = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const b = [...a];
+    b[1] = "changed 2";
+    b[17] = "changed 18";
+
+    expect(unifiedDiff(diffLines(text(a), text(b)), "a/x.ts@1", "b/x.ts@2", 2)).toBe([
+      "--- a/x.ts@1",
+      "+++ b/x.ts@2",
+      "@@ -1,4 +1,4 @@",
+      " line 1",
+      "-line 2",
+      "+changed 2",
+      " line 3",
+      " line 4",
+      "@@ -16,5 +16,5 @@",
+      " line 16",
+      " line 17",
+      "-line 18",
+      "+changed 18",
+      " line 19",
+      " line 20",
+      ""
+    ].join("\n"));
+  });
+
+  it("starts a new file's hunk at line 0 of /dev/null", () => {
+    expect(unifiedDiff(diffLines("", "a\n"), "/dev/null", "b/x.ts@1")).toBe("--- /dev/null\n+++ b/x.ts@1\n@@ -0,0 +1,1 @@\n+a\n");
+  });
+
+  it("is empty when nothing changed", () => {
+    expect(unifiedDiff(diffLines("a\n", "a\n"), "a", "b")).toBe("");
+  });
+});
+
+describe("diffFileSets", () => {
+  it("sorts paths into added, removed and modified", () => {
+    expect(diffFileSets({ "/a.ts": 1, "/b.ts": 2, "/c.ts": 1 }, { "/b.ts": 3, "/c.ts": 1, "/d.ts": 1 })).toEqual({
+      added: [{ path: "/d.ts", revision: 1 }],
+      removed: [{ path: "/a.ts", revision: 1 }],
+      modified: [{ path: "/b.ts", fromRevision: 2, toRevision: 3 }]
+    });
+  });
+});
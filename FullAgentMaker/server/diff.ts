@@ -0,0 +1,214 @@
+import type { DiffLine } from "@shared/schema";
+
+// The search takes time proportional to the lines compared times the lines changed, so a
+// rewrite of this many lines already runs for seconds
+export const MAX_DIFF_LINES = 20_000;
+
+export class DiffTooLargeError extends Error {
+  constructor(public lines: number) {
+    super(`Too large to diff: ${lines} lines, at most ${MAX_DIFF_LINES} are compared`);
+    this.name = "DiffTooLargeError";
+  }
+}
+
+function splitLines(text: string): string[] {
+  if (text === "") {
+    return [];
+  }
+  const lines = text.split("\n");
+  // A trailing newline ends the last line rather than starting an empty one
+  return lines[lines.length - 1] === "" ? lines.slice(0, -1) : lines;
+}
+
+type EditOp = "context" | "added" | "removed";
+
+// The snake through the middle of the shortest edit script between a[aLo, aHi) and b[bLo, bHi),
+// as [x0, y0, x1, y1]: Myers' search run from both ends until the two meet. Only the furthest
+// point per diagonal is kept, so memory stays linear in the length of the inputs.
+function middleSnake(a: Int32Array, aLo: number, aHi: number, b: Int32Array, bLo: number, bHi: number): [number, number, number, number] {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const delta = n - m;
+  const odd = (delta & 1) === 1;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+  // Furthest x per diagonal, counted from the start going forward and from the end going back
+  const forward = new Int32Array(2 * max + 3);
+  const backward = new Int32Array(2 * max + 3);
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+        ? forward[offset + k + 1]
+        : forward[offset + k - 1] + 1;
+      let y = x - k;
+      const x0 = x;
+      const y0 = y;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      if (odd && k >= delta - (d - 1) && k <= delta + (d - 1) && x + backward[offset + delta - k] >= n) {
+        return [aLo + x0, bLo + y0, aLo + x, bLo + y];
+      }
+    }
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+        ? backward[offset + k + 1]
+        : backward[offset + k - 1] + 1;
+      let y = x - k;
+      const x0 = x;
+      const y0 = y;
+      while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+      if (!odd && delta - k >= -d && delta - k <= d && x + forward[offset + delta - k] >= n) {
+        return [aHi - x, bHi - y, aHi - x0, bHi - y0];
+      }
+    }
+  }
+  throw new Error("No middle snake found");
+}
+
+// Myers' shortest edit script in linear space: split at the middle snake and solve both halves
+function shortestEdit(a: Int32Array, aLo: number, aHi: number, b: Int32Array, bLo: number, bHi: number, ops: EditOp[]) {
+  // Most revisions touch a few lines; leave the shared head and tail out of the search
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    ops.push("context");
+    aLo++;
+    bLo++;
+  }
+  let tail = 0;
+  while (aLo < aHi && bLo < bHi && a[aHi - 1] === b[bHi - 1]) {
+    aHi--;
+    bHi--;
+    tail++;
+  }
+
+  if (aLo === aHi) {
+    for (let y = bLo; y < bHi; y++) {
+      ops.push("added");
+    }
+  } else if (bLo === bHi) {
+    for (let x = aLo; x < aHi; x++) {
+      ops.push("removed");
+    }
+  } else {
+    const [x0, y0, x1, y1] = middleSnake(a, aLo, aHi, b, bLo, bHi);
+    shortestEdit(a, aLo, x0, b, bLo, y0, ops);
+    for (let x = x0; x < x1; x++) {
+      ops.push("context");
+    }
+    shortestEdit(a, x1, aHi, b, y1, bHi, ops);
+  }
+
+  for (let i = 0; i < tail; i++) {
+    ops.push("context");
+  }
+}
+
+// Numbers each distinct line, so the search compares integers rather than strings
+function lineIds(a: string[], b: string[]): [Int32Array, Int32Array] {
+  const ids = new Map<string, number>();
+  const toIds = (lines: string[]) => Int32Array.from(lines, line => {
+    let id = ids.get(line);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(line, id);
+    }
+    return id;
+  });
+  return [toIds(a), toIds(b)];
+}
+
+// Line-by-line comparison; unchanged lines come back as context with both line numbers.
+// Throws DiffTooLargeError when the two sides together have more than MAX_DIFF_LINES lines.
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  if (a.length + b.length > MAX_DIFF_LINES) {
+    throw new DiffTooLargeError(a.length + b.length);
+  }
+
+  const lines: DiffLine[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  const push = (type: DiffLine["type"]) => {
+    if (type === "added") {
+      lines.push({ type, newLine: newLine + 1, text: b[newLine++] });
+    } else if (type === "removed") {
+      lines.push({ type, oldLine: oldLine + 1, text: a[oldLine++] });
+    } else {
+      lines.push({ type, oldLine: oldLine + 1, newLine: newLine + 1, text: a[oldLine] });
+      oldLine++;
+      newLine++;
+    }
+  };
+
+  const [aIds, bIds] = lineIds(a, b);
+  const ops: EditOp[] = [];
+  shortestEdit(aIds, 0, aIds.length, bIds, 0, bIds.length, ops);
+  ops.forEach(push);
+  return lines;
+}
+
+// Renders diffLines output in the unified format `diff -u` and `git diff` use
+export function unifiedDiff(lines: DiffLine[], fromLabel: string, toLabel: string, context = 3): string {
+  const changed = lines.map((line, index) => line.type !== "context" ? index : -1).filter(index => index >= 0);
+  if (changed.length === 0) {
+    return "";
+  }
+
+  // Group changes whose context overlaps into one hunk
+  const hunks: Array<[number, number]> = [];
+  for (const index of changed) {
+    const first = Math.max(0, index - context);
+    const last = Math.min(lines.length - 1, index + context);
+    const previous = hunks[hunks.length - 1];
+    if (previous && first <= previous[1] + 1) {
+      previous[1] = last;
+    } else {
+      hunks.push([first, last]);
+    }
+  }
+
+  const output = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  for (const [first, last] of hunks) {
+    const hunk = lines.slice(first, last + 1);
+    const oldCount = hunk.filter(line => line.type !== "added").length;
+    const newCount = hunk.filter(line => line.type !== "removed").length;
+    // Line numbers of the first line on each side, or of the line before an empty side
+    const oldStart = (hunk.find(line => line.oldLine)?.oldLine ?? lines.slice(0, first).filter(line => line.type !== "added").length + 1) - (oldCount === 0 ? 1 : 0);
+    const newStart = (hunk.find(line => line.newLine)?.newLine ?? lines.slice(0, first).filter(line => line.type !== "removed").length + 1) - (newCount === 0 ? 1 : 0);
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of hunk) {
+      output.push(`${line.type === "added" ? "+" : line.type === "removed" ? "-" : " "}${line.text}`);
+    }
+  }
+  return output.join("\n") + "\n";
+}
+
+export interface FilesDiff {
+  added: Array<{ path: string; revision: number }>;
+  removed: Array<{ path: string; revision: number }>;
+  modified: Array<{ path: string; fromRevision: number; toRevision: number }>;
+}
+
+// Compares two run snapshots, each mapping a path to the revision it had, sorted by path
+export function diffFileSets(from: Record<string, number>, to: Record<string, number>): FilesDiff {
+  const paths = Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).sort();
+  const diff: FilesDiff = { added: [], removed: [], modified: [] };
+  for (const path of paths) {
+    if (!(path in from)) {
+      diff.added.push({ path, revision: to[path] });
+    } else if (!(path in to)) {
+      diff.removed.push({ path, revision: from[path] });
+    } else if (from[path] !== to[path]) {
+      diff.modified.push({ path, fromRevision: from[path], toRevision: to[path] });
+    }
+  }
+  return diff;
+}
@@ -0,0 +1,15 @@
+// A positive whole number from the environment. Unset gives the fallback; anything else that is
+// not a positive integer is reported and also gives the fallback, rather than a NaN that quietly
+// disables whatever limit it feeds.
+export function positiveIntFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    console.warn(`${name}=${raw} is not a positive integer; using ${fallback}`);
+    return fallback;
+  }
+  return value;
+}
@@ -4,41 +4,98 @@
 //   - do not change this unless explicitly requested by the user
 
 import { GoogleGenAI } from "@google/genai";
+import type {
+  GenerateContentConfig,
+  GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
+  SafetySetting
+} from "@google/genai";
+import { classifyError, LLMError } from "./llm/errors";
+import { resolveRoute, type LLMProvider, type LLMProviderSettings, type AIResponse, type StructuredResponse, type LLMUsage, type StreamHandler, type ResolvedRoute, type TaskType } from "./llm/LLMProvider";
 
-// This API key is from Gemini Developer API Key, not vertex AI API Key
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+export type { AIResponse } from "./llm/LLMProvider";
 
-export interface AIResponse {
-  content: string;
-  success: boolean;
-  error?: string;
-}
+export class GeminiService implements LLMProvider {
+  readonly name = "gemini" as const;
+  private ai: GoogleGenAI;
+  private text: ResolvedRoute;
+  private structured: ResolvedRoute;
+  private signal?: AbortSignal;
+
+  constructor(settings: LLMProviderSettings = {}) {
+    // This API key is from Gemini Developer API Key, not vertex AI API Key.
+    // It is always the user's own key; there is no process-wide fallback.
+    this.ai = new GoogleGenAI({ apiKey: settings.apiKey || "" });
+    this.text = resolveRoute(settings.text, settings.model, "gemini-2.5-flash");
+    this.structured = resolveRoute(settings.structured, settings.structuredModel, "gemini-2.5-pro");
+    this.signal = settings.signal;
+  }
 
-export class GeminiService {
-  private model = "gemini-2.5-flash";
+  routeFor(task: TaskType): ResolvedRoute {
+    return task === "text" ? this.text : this.structured;
+  }
 
   async generateContent(prompt: string, systemInstruction?: string): Promise<AIResponse> {
     try {
-      const config = systemInstruction ? {
-        systemInstruction,
-      } : undefined;
+      const config = this.generationConfig(this.text, systemInstruction);
 
-      const response = await ai.models.generateContent({
-        model: this.model,
+      const response = await this.ai.models.generateContent({
+        model: this.text.model,
         config,
         contents: prompt,
       });
+      this.assertNotBlocked(response);
 
       return {
         content: response.text || "",
-        success: true
+        success: true,
+        usage: this.toUsage(this.text.model, response.usageMetadata)
       };
     } catch (error: any) {
       console.error("Gemini API error:", error);
       return {
         content: "",
         success: false,
-        error: error.message || "Failed to generate content"
+        error: error.message || "Failed to generate content",
+        ...classifyError(error)
+      };
+    }
+  }
+
+  async generateContentStream(prompt: string, systemInstruction: string | undefined, onChunk: StreamHandler): Promise<AIResponse> {
+    try {
+      const config = this.generationConfig(this.text, systemInstruction);
+
+      const stream = await this.ai.models.generateContentStream({
+        model: this.text.model,
+        config,
+        contents: prompt,
+      });
+
+      let content = "";
+      let usageMetadata: GenerateContentResponseUsageMetadata | undefined;
+      for await (const chunk of stream) {
+        this.assertNotBlocked(chunk);
+        const text = chunk.text || "";
+        if (text) {
+          content += text;
+          onChunk(text);
+        }
+        usageMetadata = chunk.usageMetadata || usageMetadata;
+      }
+
+      return {
+        content,
+        success: true,
+        usage: this.toUsage(this.text.model, usageMetadata)
+      };
+    } catch (error: any) {
+      console.error("Gemini streaming error:", error);
+      return {
+        content: "",
+        success: false,
+        error: error.message || "Failed to generate content",
+        ...classifyError(error)
       };
     }
   }
@@ -47,22 +104,23 @@ export class GeminiService {
     prompt: string, 
     schema: any, 
     systemInstruction?: string
-  ): Promise<{ data: T | null; success: boolean; error?: string }> {
+  ): Promise<StructuredResponse<T>> {
     try {
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-pro",
+      const response = await this.ai.models.generateContent({
+        model: this.structured.model,
         config: {
-          systemInstruction,
+          ...this.generationConfig(this.structured, systemInstruction),
           responseMimeType: "application/json",
           responseSchema: schema,
         },
         contents: prompt,
       });
+      this.assertNotBlocked(response);
 
       const rawJson = response.text;
       if (rawJson) {
         const data = JSON.parse(rawJson);
-        return { data, success: true };
+        return { data, success: true, usage: this.toUsage(this.structured.model, response.usageMetadata) };
       } else {
         throw new Error("Empty response from model");
       }
@@ -71,10 +129,39 @@ export class GeminiService {
       return {
         data: null,
         success: false,
-        error: error.message || "Failed to generate structured content"
+        error: error.message || "Failed to generate structured content",
+        ...classifyError(error)
       };
     }
   }
-}
 
-export const geminiService = new GeminiService();
\ No newline at end of file
+  private generationConfig(route: ResolvedRoute, systemInstruction?: string): GenerateContentConfig {
+    return {
+      systemInstruction,
+      temperature: route.temperature,
+      maxOutputTokens: route.maxOutputTokens,
+      safetySettings: route.safetySettings as SafetySetting[] | undefined,
+      abortSignal: this.signal,
+    };
+  }
+
+  // Safety blocks come back as a normal response with no text, so surface them as errors
+  private assertNotBlocked(response: GenerateContentResponse) {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || finishReason === "SAFETY" || finishReason === "PROHIBITED_CONTENT") {
+      throw new LLMError(`Response blocked by safety filters: ${blockReason || finishReason}`, undefined, undefined, "safety");
+    }
+  }
+
+  private toUsage(model: string, metadata?: GenerateContentResponseUsageMetadata): LLMUsage {
+    const promptTokens = metadata?.promptTokenCount || 0;
+    const completionTokens = metadata?.candidatesTokenCount || 0;
+    return {
+      model,
+      promptTokens,
+      completionTokens,
+      totalTokens: metadata?.totalTokenCount || promptTokens + completionTokens
+    };
+  }
+}
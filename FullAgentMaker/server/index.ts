@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { agentOrchestrator } from "./agents/AgentOrchestrator";
+import { storageReady } from "./storage";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +39,11 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await storageReady;
+
+  // Custom agents have to be in the pipeline before any project can run
+  await agentOrchestrator.loadPlugins();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -67,5 +74,10 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Pick up runs the previous process was in the middle of
+    agentOrchestrator.recoverInterruptedRuns().catch(error => {
+      console.error("Recovering interrupted runs failed:", error);
+    });
   });
 })();
@@ -0,0 +1,335 @@
+import fs from "fs";
+import path from "path";
+import type {
+  User,
+  InsertUser,
+  Project,
+  InsertProject,
+  AgentLog,
+  InsertAgentLog,
+  ProjectFile,
+  InsertProjectFile,
+  FileRevision,
+  ProjectRun,
+  InsertProjectRun,
+  AgentState,
+  LlmCacheEntry,
+  InsertLlmCacheEntry,
+  RunJob,
+  InsertRunJob,
+  AgentRoute,
+  AgentRouting
+} from "@shared/schema";
+import { MemStorage } from "./memStorage";
+
+// Record fields JSON turns into strings that have to come back as dates. Only a record's own
+// fields are revived: state, metadata and agent outputs keep whatever strings they were given.
+const DATE_FIELDS = ["createdAt", "updatedAt", "timestamp", "expiresAt", "lastHitAt", "startedAt", "finishedAt", "deletedAt"];
+
+export function reviveDates<T>(record: T): T {
+  const revived: Record<string, unknown> = { ...record as Record<string, unknown> };
+  for (const field of DATE_FIELDS) {
+    if (typeof revived[field] === "string") {
+      revived[field] = new Date(revived[field] as string);
+    }
+  }
+  return revived as T;
+}
+
+function readJson<T>(file: string): T | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(file, "utf-8"));
+}
+
+// One record per line. A crash during an append can leave the last line cut short; it is dropped.
+function readJsonLines<T>(file: string): T[] {
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+  const records: T[] = [];
+  for (const line of fs.readFileSync(file, "utf-8").split("\n")) {
+    if (!line) {
+      continue;
+    }
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      break;
+    }
+  }
+  return records;
+}
+
+async function syncDirectory(dir: string): Promise<void> {
+  const handle = await fs.promises.open(dir, "r");
+  try {
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+}
+
+// Writes a sibling temp file, syncs it and renames it over the target, so a crash leaves either
+// the old or the new contents; the directory is synced so the rename itself survives
+export async function writeFileAtomic(file: string, data: string | Uint8Array): Promise<void> {
+  const tmp = `${file}.${process.pid}.tmp`;
+  const handle = await fs.promises.open(tmp, "w");
+  try {
+    await handle.writeFile(data);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await fs.promises.rename(tmp, file);
+  await syncDirectory(path.dirname(file));
+}
+
+async function appendLines(file: string, records: unknown[]): Promise<void> {
+  const created = !fs.existsSync(file);
+  const handle = await fs.promises.open(file, "a");
+  try {
+    await handle.writeFile(records.map(record => JSON.stringify(record) + "\n").join(""));
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  if (created) {
+    await syncDirectory(path.dirname(file));
+  }
+}
+
+// Serves reads from memory like MemStorage and writes every change through to a directory:
+// projects/<id>/ holds project.json and files.json, rewritten atomically when they change, and
+// logs, revisions and runs as append-only .jsonl files, so a write costs what changed rather than
+// the whole project. users.json, llm-cache.json and run-jobs.json sit at the top.
+// Meant for single-user local installs that should survive restarts without a database.
+export class JsonFileStorage extends MemStorage {
+  // Pending writes, per project directory or top-level file, applied one after another
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(private dir: string) {
+    super();
+    fs.mkdirSync(path.join(dir, "projects"), { recursive: true });
+    this.load();
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const user = await super.createUser(insertUser);
+    await this.persistUsers();
+    return user;
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const project = await super.createProject(insertProject);
+    await this.persistProject(project.id);
+    return project;
+  }
+
+  async updateProjectStatus(id: string, status: string): Promise<void> {
+    await super.updateProjectStatus(id, status);
+    await this.persistProject(id);
+  }
+
+  async updateProjectState(id: string, state: AgentState): Promise<void> {
+    await super.updateProjectState(id, state);
+    await this.persistProject(id);
+  }
+
+  async updateProjectConfig(id: string, config: unknown): Promise<void> {
+    await super.updateProjectConfig(id, config);
+    await this.persistProject(id);
+  }
+
+  async softDeleteProject(id: string): Promise<void> {
+    await super.softDeleteProject(id);
+    await this.persistProject(id);
+  }
+
+  async restoreProject(id: string): Promise<void> {
+    await super.restoreProject(id);
+    await this.persistProject(id);
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    await super.deleteProject(id);
+    await this.inProject(id, () => fs.promises.rm(this.projectDir(id), { recursive: true, force: true }));
+    await this.persistRunJobs();
+  }
+
+  async addAgentLog(insertLog: InsertAgentLog): Promise<AgentLog> {
+    const log = await super.addAgentLog(insertLog);
+    await this.append(log.projectId, "logs.jsonl", [log]);
+    return log;
+  }
+
+  async saveProjectFile(insertFile: InsertProjectFile): Promise<ProjectFile> {
+    const latest = await this.latestRevisionOf(insertFile.projectId, insertFile.path);
+    const file = await super.saveProjectFile(insertFile);
+    if (file.revision !== latest) {
+      await this.persistFileChange(file);
+    }
+    return file;
+  }
+
+  async updateProjectFile(id: string, content: string): Promise<void> {
+    const revision = this.projectFiles.get(id)?.revision;
+    await super.updateProjectFile(id, content);
+    const file = this.projectFiles.get(id);
+    if (file && file.revision !== revision) {
+      await this.persistFileChange(file);
+    }
+  }
+
+  async deleteProjectFiles(projectId: string, agentNames?: string[]): Promise<void> {
+    await super.deleteProjectFiles(projectId, agentNames);
+    await this.persistFiles(projectId);
+  }
+
+  async addProjectRun(insertRun: InsertProjectRun): Promise<ProjectRun> {
+    const run = await super.addProjectRun(insertRun);
+    await this.append(run.projectId, "runs.jsonl", [run]);
+    return run;
+  }
+
+  // Hits only refresh lastHitAt in memory; it is written with the next change to the cache
+  async setCachedResponse(insertEntry: InsertLlmCacheEntry): Promise<void> {
+    await super.setCachedResponse(insertEntry);
+    await this.persistCache();
+  }
+
+  async pruneCachedResponses(maxEntries: number): Promise<void> {
+    await super.pruneCachedResponses(maxEntries);
+    await this.persistCache();
+  }
+
+  async addRunJob(insertJob: InsertRunJob): Promise<RunJob> {
+    const job = await super.addRunJob(insertJob);
+    await this.persistRunJobs();
+    return job;
+  }
+
+  async updateRunJob(id: string, changes: Partial<Pick<RunJob, "status" | "only" | "startedAt">>): Promise<void> {
+    await super.updateRunJob(id, changes);
+    await this.persistRunJobs();
+  }
+
+  async deleteRunJob(id: string): Promise<void> {
+    await super.deleteRunJob(id);
+    await this.persistRunJobs();
+  }
+
+  async setAgentRoute(agent: string, routing: AgentRouting): Promise<void> {
+    await super.setAgentRoute(agent, routing);
+    await this.persist(this.file("agent-routes.json"), () => Array.from(this.agentRoutes.values()));
+  }
+
+  private load() {
+    for (const user of readJson<User[]>(this.file("users.json")) || []) {
+      this.users.set(user.id, user);
+    }
+    for (const entry of readJson<LlmCacheEntry[]>(this.file("llm-cache.json")) || []) {
+      this.llmCache.set(entry.key, reviveDates(entry));
+    }
+    for (const job of readJson<RunJob[]>(this.file("run-jobs.json")) || []) {
+      this.runJobs.set(job.id, reviveDates(job));
+    }
+    for (const route of readJson<AgentRoute[]>(this.file("agent-routes.json")) || []) {
+      this.agentRoutes.set(route.agent, reviveDates(route));
+    }
+    for (const id of fs.readdirSync(path.join(this.dir, "projects"))) {
+      const dir = this.projectDir(id);
+      // A project whose creation or deletion was cut short has no project.json
+      const project = readJson<Project>(path.join(dir, "project.json"));
+      if (!project) {
+        continue;
+      }
+      this.projects.set(project.id, reviveDates(project));
+      for (const file of readJson<ProjectFile[]>(path.join(dir, "files.json")) || []) {
+        this.putFile(reviveDates(file));
+      }
+      readJsonLines<AgentLog>(path.join(dir, "logs.jsonl")).forEach(log => this.agentLogs.set(log.id, reviveDates(log)));
+      readJsonLines<FileRevision>(path.join(dir, "revisions.jsonl")).forEach(revision => this.putRevision(reviveDates(revision)));
+      readJsonLines<ProjectRun>(path.join(dir, "runs.jsonl")).forEach(run => this.projectRuns.set(run.id, reviveDates(run)));
+    }
+  }
+
+  private file(name: string): string {
+    return path.join(this.dir, name);
+  }
+
+  private projectDir(projectId: string): string {
+    return path.join(this.dir, "projects", projectId);
+  }
+
+  private async latestRevisionOf(projectId: string, filePath: string): Promise<number> {
+    const revisions = await this.getFileRevisions(projectId, filePath);
+    return revisions.length > 0 ? revisions[revisions.length - 1].revision : 0;
+  }
+
+  private async persistFileChange(file: ProjectFile): Promise<void> {
+    const revision = await this.getFileRevision(file.projectId, file.path, file.revision);
+    await this.append(file.projectId, "revisions.jsonl", [revision]);
+    await this.persistFiles(file.projectId);
+  }
+
+  private async persistProject(projectId: string): Promise<void> {
+    await this.inProject(projectId, async () => {
+      const project = this.projects.get(projectId);
+      if (project) {
+        await fs.promises.mkdir(this.projectDir(projectId), { recursive: true });
+        await writeFileAtomic(path.join(this.projectDir(projectId), "project.json"), JSON.stringify(project));
+      }
+    });
+  }
+
+  private async persistFiles(projectId: string): Promise<void> {
+    await this.inProject(projectId, async () => {
+      if (this.projects.has(projectId)) {
+        const files = await this.getProjectFiles(projectId);
+        await writeFileAtomic(path.join(this.projectDir(projectId), "files.json"), JSON.stringify(files));
+      }
+    });
+  }
+
+  private async append(projectId: string, name: string, records: unknown[]): Promise<void> {
+    await this.inProject(projectId, async () => {
+      if (this.projects.has(projectId)) {
+        await appendLines(path.join(this.projectDir(projectId), name), records);
+      }
+    });
+  }
+
+  private async persistUsers(): Promise<void> {
+    await this.persist(this.file("users.json"), () => Array.from(this.users.values()));
+  }
+
+  private async persistCache(): Promise<void> {
+    await this.persist(this.file("llm-cache.json"), () => Array.from(this.llmCache.values()));
+  }
+
+  private async persistRunJobs(): Promise<void> {
+    await this.persist(this.file("run-jobs.json"), () => Array.from(this.runJobs.values()));
+  }
+
+  // Each write of a whole file uses the contents current when it starts, so a burst of changes
+  // never leaves an older snapshot on disk last
+  private persist(file: string, contents: () => unknown): Promise<void> {
+    return this.serialize(file, () => writeFileAtomic(file, JSON.stringify(contents())));
+  }
+
+  // Writes of one project run in order, and none of them outlives the project being deleted
+  private inProject(projectId: string, write: () => Promise<unknown>): Promise<void> {
+    return this.serialize(`project:${projectId}`, write);
+  }
+
+  private serialize(key: string, write: () => Promise<unknown>): Promise<void> {
+    const previous = this.writes.get(key) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(async () => {
+      await write();
+    });
+    this.writes.set(key, next);
+    return next;
+  }
+}
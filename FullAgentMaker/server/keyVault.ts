@@ -0,0 +1,40 @@
+// User-supplied LLM API keys, held only in process memory for the duration of a run.
+// Keys are never written to storage, project config or logs.
+export class KeyVault {
+  private keys: Map<string, string> = new Map();
+
+  set(projectId: string, apiKey: string): void {
+    this.keys.set(projectId, apiKey);
+  }
+
+  get(projectId: string): string | undefined {
+    return this.keys.get(projectId);
+  }
+
+  has(projectId: string): boolean {
+    return this.keys.has(projectId);
+  }
+
+  delete(projectId: string): void {
+    this.keys.delete(projectId);
+  }
+}
+
+export const keyVault = new KeyVault();
+
+// Drop any credentials a client tried to smuggle into the persisted project config, and the
+// settings only the server's environment may choose, such as where cassettes are read and written
+export function withoutSecrets(config: any): any {
+  if (!config || typeof config !== "object" || !config.llm) {
+    return config;
+  }
+  const { apiKey, cassette, ...llm } = config.llm;
+  return { ...config, llm };
+}
+
+// Gemini has no fallback key, so runs need one from the user unless they are replayed
+export function requiresApiKey(config: any): boolean {
+  const provider = config?.llm?.provider || process.env.LLM_PROVIDER || "gemini";
+  const replaying = process.env.LLM_CASSETTE_MODE === "replay";
+  return provider === "gemini" && !replaying;
+}
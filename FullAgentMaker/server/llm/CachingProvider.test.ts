@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MemStorage } from "../memStorage";
+import { CachingProvider, cacheSettingsFromEnv } from "./CachingProvider";
+import { FakeProvider } from "./FakeProvider";
+import type { LLMProvider } from "./LLMProvider";
+
+const settings = { ttlMs: 60_000, maxEntries: 10 };
+
+// A fake that reports `endpoint` as the server it talks to
+function providerAt(endpoint?: string): LLMProvider {
+  const fake = new FakeProvider({ script: { responses: [], fallback: "answer" } }, "Requirement");
+  return Object.assign(Object.create(fake), { endpoint });
+}
+
+describe("CachingProvider", () => {
+  it("replays a response within its scope and endpoint only", async () => {
+    const storage = new MemStorage();
+    const alice = new CachingProvider(providerAt("http://a"), storage, settings, "alice");
+
+    expect((await alice.generateContent("prompt")).cached).toBeUndefined();
+    expect((await alice.generateContent("prompt")).cached).toBe(true);
+
+    const bob = new CachingProvider(providerAt("http://a"), storage, settings, "bob");
+    expect((await bob.generateContent("prompt")).cached).toBeUndefined();
+    const otherServer = new CachingProvider(providerAt("http://b"), storage, settings, "alice");
+    expect((await otherServer.generateContent("prompt")).cached).toBeUndefined();
+  });
+});
+
+describe("cacheSettingsFromEnv", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("is off unless LLM_CACHE=on", () => {
+    vi.stubEnv("LLM_CACHE", "");
+    expect(cacheSettingsFromEnv()).toBeNull();
+    vi.stubEnv("LLM_CACHE", "on");
+    expect(cacheSettingsFromEnv()).toEqual({ ttlMs: 24 * 60 * 60 * 1000, maxEntries: 500 });
+  });
+
+  it("falls back to the defaults for values that are not positive integers", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.stubEnv("LLM_CACHE", "on");
+    vi.stubEnv("LLM_CACHE_TTL_MS", "1h");
+    vi.stubEnv("LLM_CACHE_MAX_ENTRIES", "-5");
+    expect(cacheSettingsFromEnv()).toEqual({ ttlMs: 24 * 60 * 60 * 1000, maxEntries: 500 });
+
+    vi.stubEnv("LLM_CACHE_MAX_ENTRIES", "20");
+    expect(cacheSettingsFromEnv()?.maxEntries).toBe(20);
+  });
+});
@@ -0,0 +1,140 @@
+import { createHash } from "crypto";
+import type { LlmCacheEntry, InsertLlmCacheEntry } from "@shared/schema";
+import type {
+  LLMProvider,
+  AIResponse,
+  StructuredResponse,
+  StreamHandler,
+  TaskType
+} from "./LLMProvider";
+import { positiveIntFromEnv } from "../env";
+
+// The slice of IStorage the cache needs
+export interface ResponseCache {
+  getCachedResponse(key: string): Promise<LlmCacheEntry | undefined>;
+  setCachedResponse(entry: InsertLlmCacheEntry): Promise<void>;
+  pruneCachedResponses(maxEntries: number): Promise<void>;
+}
+
+export interface CacheSettings {
+  ttlMs: number;
+  maxEntries: number;
+}
+
+// Caching is off unless LLM_CACHE=on. A replayed response skips the model entirely, which is
+// only right when the same prompt should give the same answer, so operators opt in.
+export function cacheSettingsFromEnv(): CacheSettings | null {
+  if (process.env.LLM_CACHE !== "on") {
+    return null;
+  }
+  return {
+    ttlMs: positiveIntFromEnv("LLM_CACHE_TTL_MS", 24 * 60 * 60 * 1000),
+    maxEntries: positiveIntFromEnv("LLM_CACHE_MAX_ENTRIES", 500)
+  };
+}
+
+// Serves identical requests from storage; only successful responses are kept. Entries are shared
+// within a scope, the project owner as the orchestrator uses it: one owner's projects reuse each
+// other's answers, but nobody is served a response someone else's key paid for.
+export class CachingProvider implements LLMProvider {
+  constructor(
+    private inner: LLMProvider,
+    private cache: ResponseCache,
+    private settings: CacheSettings,
+    private scope: string
+  ) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get endpoint() {
+    return this.inner.endpoint;
+  }
+
+  routeFor(task: TaskType) {
+    return this.inner.routeFor(task);
+  }
+
+  async generateContent(prompt: string, systemInstruction?: string): Promise<AIResponse> {
+    const key = this.keyFor("text", prompt, systemInstruction);
+    const hit = await this.lookup<AIResponse>(key);
+    if (hit) {
+      return hit;
+    }
+
+    const response = await this.inner.generateContent(prompt, systemInstruction);
+    await this.store(key, "text", response);
+    return response;
+  }
+
+  async generateContentStream(prompt: string, systemInstruction: string | undefined, onChunk: StreamHandler): Promise<AIResponse> {
+    const key = this.keyFor("text", prompt, systemInstruction);
+    const hit = await this.lookup<AIResponse>(key);
+    if (hit) {
+      onChunk(hit.content);
+      return hit;
+    }
+
+    const response = await this.inner.generateContentStream(prompt, systemInstruction, onChunk);
+    await this.store(key, "text", response);
+    return response;
+  }
+
+  async generateStructuredContent<T>(
+    prompt: string,
+    schema: any,
+    systemInstruction?: string
+  ): Promise<StructuredResponse<T>> {
+    const key = this.keyFor("structured", prompt, systemInstruction, schema);
+    const hit = await this.lookup<StructuredResponse<T>>(key);
+    if (hit) {
+      return hit;
+    }
+
+    const response = await this.inner.generateStructuredContent<T>(prompt, schema, systemInstruction);
+    await this.store(key, "structured", response);
+    return response;
+  }
+
+  private keyFor(task: TaskType, prompt: string, systemInstruction?: string, schema?: any): string {
+    return createHash("sha256")
+      .update(JSON.stringify({
+        scope: this.scope,
+        provider: this.inner.name,
+        // The same model name can be served by different servers
+        endpoint: this.inner.endpoint ?? null,
+        route: this.inner.routeFor(task),
+        systemInstruction: systemInstruction || null,
+        prompt,
+        schema: schema ?? null
+      }))
+      .digest("hex");
+  }
+
+  // A hit costs nothing, so it carries no usage for the meter to charge
+  private async lookup<R extends AIResponse | StructuredResponse<any>>(key: string): Promise<R | null> {
+    const entry = await this.cache.getCachedResponse(key);
+    if (!entry) {
+      return null;
+    }
+    const { usage, ...response } = entry.response as R;
+    return { ...response, cached: true } as R;
+  }
+
+  private async store(key: string, task: TaskType, response: AIResponse | StructuredResponse<any>) {
+    if (!response.success) {
+      return;
+    }
+    const serialized = JSON.stringify(response);
+    await this.cache.setCachedResponse({
+      key,
+      provider: this.inner.name,
+      model: this.inner.routeFor(task).model,
+      response,
+      size: serialized.length,
+      expiresAt: new Date(Date.now() + this.settings.ttlMs)
+    });
+    await this.cache.pruneCachedResponses(this.settings.maxEntries);
+  }
+}
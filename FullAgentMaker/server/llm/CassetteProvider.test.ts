@@ -0,0 +1,39 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { CassetteProvider, flushCassettes } from "./CassetteProvider";
+import { FakeProvider } from "./FakeProvider";
+
+let dir = "";
+
+afterEach(() => {
+  if (dir) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function tempCassette(name: string) {
+  dir = dir || fs.mkdtempSync(path.join(os.tmpdir(), "cassette-"));
+  return path.join(dir, name);
+}
+
+describe("CassetteProvider", () => {
+  it("records every call and replays them without the inner provider", async () => {
+    const file = tempCassette("record.json");
+    const fake = new FakeProvider({ script: { responses: [], fallback: "answer" } }, "Requirement");
+    const recorder = new CassetteProvider(fake, { mode: "record", path: file }, "Requirement");
+
+    await Promise.all([recorder.generateContent("one"), recorder.generateContent("two"), recorder.generateContent("three")]);
+    await flushCassettes();
+    const { entries } = JSON.parse(fs.readFileSync(file, "utf-8"));
+    expect(entries.map((entry: { prompt: string }) => entry.prompt)).toEqual(["one", "two", "three"]);
+
+    const copy = tempCassette("replay.json");
+    fs.copyFileSync(file, copy);
+    const silent = new FakeProvider({ script: { responses: [], fallback: "not from the tape" } }, "Requirement");
+    const player = new CassetteProvider(silent, { mode: "replay", path: copy }, "Requirement");
+    expect(await player.generateContent("two")).toMatchObject({ success: true, content: "answer" });
+    expect((await player.generateContent("four")).success).toBe(false);
+  });
+});
@@ -0,0 +1,190 @@
+import fs from "fs";
+import path from "path";
+import { writeFileAtomic } from "../jsonStorage";
+import { fingerprintPrompt } from "./FakeProvider";
+import type { LLMProvider, AIResponse, StructuredResponse, StreamHandler, TaskType } from "./LLMProvider";
+
+export type CassetteMode = "record" | "replay";
+
+export interface CassetteSettings {
+  mode: CassetteMode;
+  path: string;
+}
+
+export interface CassetteEntry {
+  kind: "text" | "structured";
+  agent: string;
+  provider: string;
+  fingerprint: string;
+  systemInstruction?: string;
+  prompt: string;
+  schema?: any;
+  response: AIResponse | StructuredResponse<any>;
+  recordedAt: string;
+}
+
+// One cassette file shared by every provider instance that points at it
+class Cassette {
+  private static open = new Map<string, Cassette>();
+  private entries: CassetteEntry[] = [];
+  private replayed = new Set<number>();
+  // The write under way, if any; entries recorded meanwhile go out with the next one
+  private writing: Promise<void> | null = null;
+  private dirty = false;
+
+  private constructor(private file: string, mode: CassetteMode) {
+    // Recording always starts a fresh tape; replay reads the existing one
+    if (mode === "replay" && fs.existsSync(file)) {
+      this.entries = JSON.parse(fs.readFileSync(file, "utf-8")).entries || [];
+    }
+  }
+
+  static get(file: string, mode: CassetteMode): Cassette {
+    const resolved = path.resolve(file);
+    let cassette = Cassette.open.get(resolved);
+    if (!cassette) {
+      cassette = new Cassette(resolved, mode);
+      Cassette.open.set(resolved, cassette);
+    }
+    return cassette;
+  }
+
+  // Waits for every cassette's pending entries to reach disk
+  static async flushAll(): Promise<void> {
+    await Promise.all(Array.from(Cassette.open.values(), cassette => cassette.flushed()));
+  }
+
+  append(entry: CassetteEntry) {
+    this.entries.push(entry);
+    this.dirty = true;
+    if (!this.writing) {
+      this.writing = this.write()
+        .catch(error => console.error(`Failed to write cassette ${this.file}:`, error))
+        .finally(() => { this.writing = null; });
+    }
+  }
+
+  async flushed(): Promise<void> {
+    while (this.writing) {
+      await this.writing;
+    }
+  }
+
+  // One write per batch of entries rather than a rewrite of the file for each of them
+  private async write(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    while (this.dirty) {
+      this.dirty = false;
+      await writeFileAtomic(this.file, JSON.stringify({ entries: this.entries }, null, 2));
+    }
+  }
+
+  // Identical prompts are served back in the order they were recorded,
+  // repeating the last match once they have all been used
+  take(kind: CassetteEntry["kind"], agent: string, fingerprint: string): CassetteEntry | undefined {
+    const matches = (entry: CassetteEntry) =>
+      entry.kind === kind && entry.agent === agent && entry.fingerprint === fingerprint;
+
+    const index = this.entries.findIndex((entry, i) => !this.replayed.has(i) && matches(entry));
+    if (index !== -1) {
+      this.replayed.add(index);
+      return this.entries[index];
+    }
+    return this.entries.filter(matches).pop();
+  }
+}
+
+export function flushCassettes(): Promise<void> {
+  return Cassette.flushAll();
+}
+
+export class CassetteProvider implements LLMProvider {
+  private cassette: Cassette;
+
+  constructor(private inner: LLMProvider, private settings: CassetteSettings, private agent = "unknown") {
+    this.cassette = Cassette.get(settings.path, settings.mode);
+  }
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get endpoint() {
+    return this.inner.endpoint;
+  }
+
+  routeFor(task: TaskType) {
+    return this.inner.routeFor(task);
+  }
+
+  async generateContent(prompt: string, systemInstruction?: string): Promise<AIResponse> {
+    const fingerprint = fingerprintPrompt(prompt, systemInstruction);
+
+    if (this.settings.mode === "replay") {
+      const entry = this.cassette.take("text", this.agent, fingerprint);
+      return entry
+        ? entry.response as AIResponse
+        : { content: "", success: false, error: `No cassette entry for ${this.agent} prompt ${fingerprint}` };
+    }
+
+    const response = await this.inner.generateContent(prompt, systemInstruction);
+    this.record("text", fingerprint, prompt, systemInstruction, undefined, response);
+    return response;
+  }
+
+  // Streamed calls share "text" entries with plain ones; a replay arrives as a single chunk
+  async generateContentStream(prompt: string, systemInstruction: string | undefined, onChunk: StreamHandler): Promise<AIResponse> {
+    if (this.settings.mode === "replay") {
+      const response = await this.generateContent(prompt, systemInstruction);
+      if (response.content) {
+        onChunk(response.content);
+      }
+      return response;
+    }
+
+    const fingerprint = fingerprintPrompt(prompt, systemInstruction);
+    const response = await this.inner.generateContentStream(prompt, systemInstruction, onChunk);
+    this.record("text", fingerprint, prompt, systemInstruction, undefined, response);
+    return response;
+  }
+
+  async generateStructuredContent<T>(
+    prompt: string,
+    schema: any,
+    systemInstruction?: string
+  ): Promise<StructuredResponse<T>> {
+    const fingerprint = fingerprintPrompt(prompt, systemInstruction);
+
+    if (this.settings.mode === "replay") {
+      const entry = this.cassette.take("structured", this.agent, fingerprint);
+      return entry
+        ? entry.response as StructuredResponse<T>
+        : { data: null, success: false, error: `No cassette entry for ${this.agent} prompt ${fingerprint}` };
+    }
+
+    const response = await this.inner.generateStructuredContent<T>(prompt, schema, systemInstruction);
+    this.record("structured", fingerprint, prompt, systemInstruction, schema, response);
+    return response;
+  }
+
+  private record(
+    kind: CassetteEntry["kind"],
+    fingerprint: string,
+    prompt: string,
+    systemInstruction: string | undefined,
+    schema: any,
+    response: AIResponse | StructuredResponse<any>
+  ) {
+    this.cassette.append({
+      kind,
+      agent: this.agent,
+      provider: this.inner.name,
+      fingerprint,
+      systemInstruction,
+      prompt,
+      schema,
+      response,
+      recordedAt: new Date().toISOString()
+    });
+  }
+}
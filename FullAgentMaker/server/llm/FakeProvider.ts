@@ -0,0 +1,142 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import type { LLMErrorKind } from "./errors";
+import { sleep } from "./sleep";
+import type { LLMProvider, LLMProviderSettings, AIResponse, StructuredResponse, LLMUsage, StreamHandler, ResolvedRoute } from "./LLMProvider";
+
+export interface FakeResponse {
+  agent?: string;       // matches any agent when omitted
+  fingerprint?: string; // matches any prompt when omitted
+  content?: string;
+  data?: any;           // returned by generateStructuredContent
+  error?: string;       // simulate a failed call
+  errorKind?: LLMErrorKind;
+  retryAfterMs?: number; // how long a failed call asks the caller to wait before retrying
+}
+
+export interface FakeScript {
+  responses: FakeResponse[];
+  fallback?: string;
+  delayMs?: number; // simulated latency per call, cut short by an abort
+}
+
+export interface FakeCall {
+  agent: string;
+  fingerprint: string;
+  prompt: string;
+  systemInstruction?: string;
+}
+
+// Stable short hash of a prompt, used to key canned responses
+export function fingerprintPrompt(prompt: string, systemInstruction?: string): string {
+  return createHash("sha256")
+    .update(`${systemInstruction || ""}\n---\n${prompt}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+// Deterministic, offline provider for tests and dry runs
+export class FakeProvider implements LLMProvider {
+  readonly name = "fake" as const;
+  readonly calls: FakeCall[] = [];
+  private script: FakeScript;
+  private signal?: AbortSignal;
+
+  constructor(settings: LLMProviderSettings = {}, private agent = "unknown") {
+    this.script = settings.script
+      || FakeProvider.loadScript(settings.scriptName ? FakeProvider.fixturePath(settings.scriptName) : process.env.FAKE_LLM_SCRIPT);
+    this.signal = settings.signal;
+  }
+
+  // A script checked in under fixtures/, by name; a project can pick one but not read any other file
+  static fixturePath(name: string): string {
+    if (!/^[\w-]+$/.test(name)) {
+      throw new Error(`Invalid fake LLM script name: ${name}`);
+    }
+    return path.resolve("fixtures", `${name}.json`);
+  }
+
+  static loadScript(file?: string): FakeScript {
+    if (!file) {
+      return { responses: [] };
+    }
+    // The parser's message quotes the file, which would end up in the project's errors
+    try {
+      return JSON.parse(fs.readFileSync(file, "utf-8"));
+    } catch {
+      throw new Error(`Fake LLM script ${path.basename(file)} could not be read`);
+    }
+  }
+
+  routeFor(): ResolvedRoute {
+    return { model: "fake" };
+  }
+
+  async generateContent(prompt: string, systemInstruction?: string): Promise<AIResponse> {
+    const response = await this.lookup(prompt, systemInstruction);
+    if (response.error) {
+      return { content: "", success: false, error: response.error, errorKind: response.errorKind, retryAfterMs: response.retryAfterMs };
+    }
+    const content = response.content ?? this.fallback(prompt, systemInstruction);
+    return { content, success: true, usage: this.estimateUsage(prompt, systemInstruction, content) };
+  }
+
+  // Replays the scripted content in fixed-size pieces so streaming consumers see several chunks
+  async generateContentStream(prompt: string, systemInstruction: string | undefined, onChunk: StreamHandler): Promise<AIResponse> {
+    const response = await this.generateContent(prompt, systemInstruction);
+    for (let i = 0; i < response.content.length; i += 256) {
+      onChunk(response.content.slice(i, i + 256));
+    }
+    return response;
+  }
+
+  async generateStructuredContent<T>(
+    prompt: string,
+    schema: any,
+    systemInstruction?: string
+  ): Promise<StructuredResponse<T>> {
+    const response = await this.lookup(prompt, systemInstruction);
+    if (response.error) {
+      return { data: null, success: false, error: response.error, errorKind: response.errorKind, retryAfterMs: response.retryAfterMs };
+    }
+    if (response.data !== undefined) {
+      const usage = this.estimateUsage(prompt, systemInstruction, JSON.stringify(response.data));
+      return { data: response.data, success: true, usage };
+    }
+    if (response.content !== undefined) {
+      const usage = this.estimateUsage(prompt, systemInstruction, response.content);
+      return { data: JSON.parse(response.content), success: true, usage };
+    }
+    return { data: null, success: false, error: "No scripted structured response" };
+  }
+
+  private async lookup(prompt: string, systemInstruction?: string): Promise<FakeResponse> {
+    const fingerprint = fingerprintPrompt(prompt, systemInstruction);
+    this.calls.push({ agent: this.agent, fingerprint, prompt, systemInstruction });
+
+    await sleep(this.script.delayMs || 0, this.signal);
+    if (this.signal?.aborted) {
+      return { error: "Request aborted", errorKind: "cancelled" };
+    }
+
+    const candidates = this.script.responses.filter(r => !r.agent || r.agent === this.agent);
+    return candidates.find(r => r.fingerprint === fingerprint)
+      || candidates.find(r => !r.fingerprint)
+      || {};
+  }
+
+  // Roughly four characters per token, so budgets and dashboards have numbers to show
+  private estimateUsage(prompt: string, systemInstruction: string | undefined, output: string): LLMUsage {
+    const promptTokens = Math.ceil((prompt.length + (systemInstruction?.length || 0)) / 4);
+    const completionTokens = Math.ceil(output.length / 4);
+    return { model: "fake", promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  private fallback(prompt: string, systemInstruction?: string): string {
+    if (this.script.fallback !== undefined) {
+      return this.script.fallback;
+    }
+    return `[fake:${this.agent}] ${fingerprintPrompt(prompt, systemInstruction)}`;
+  }
+}
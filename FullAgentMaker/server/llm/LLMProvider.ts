@@ -0,0 +1,79 @@
+import type { ModelRoute, AgentRouting } from "@shared/schema";
+import type { FakeScript } from "./FakeProvider";
+import type { RetryPolicy } from "./RetryingProvider";
+import type { LLMErrorKind } from "./errors";
+
+// Token counts as reported by the provider for a single call
+export interface LLMUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface AIResponse {
+  content: string;
+  success: boolean;
+  cached?: boolean;
+  error?: string;
+  errorKind?: LLMErrorKind;
+  retryAfterMs?: number;
+  usage?: LLMUsage;
+}
+
+export interface StructuredResponse<T> {
+  data: T | null;
+  success: boolean;
+  cached?: boolean;
+  error?: string;
+  errorKind?: LLMErrorKind;
+  retryAfterMs?: number;
+  usage?: LLMUsage;
+}
+
+export type LLMProviderName = "gemini" | "openai" | "local" | "fake";
+
+// Provider selection as it appears under `config.llm` on a project
+export interface LLMProviderSettings {
+  provider?: LLMProviderName;
+  model?: string;                  // shorthand for text.model
+  structuredModel?: string;        // shorthand for structured.model
+  text?: ModelRoute;
+  structured?: ModelRoute;
+  routing?: Record<string, AgentRouting>; // per-agent overrides, resolved by the orchestrator
+  baseUrl?: string;
+  apiKey?: string;
+  flavor?: "ollama" | "llamacpp"; // local provider only
+  script?: FakeScript;             // fake provider only
+  scriptName?: string;             // fake provider only: a script under fixtures/, without ".json"
+  retry?: RetryPolicy;
+  bypassCache?: boolean;           // always call the model, ignoring cached responses
+  signal?: AbortSignal;            // set by the orchestrator per run; aborts in-flight calls
+}
+
+// A route whose model has been settled by the provider's defaults
+export type ResolvedRoute = ModelRoute & { model: string };
+
+export function resolveRoute(route: ModelRoute | undefined, ...fallbackModels: Array<string | undefined>): ResolvedRoute {
+  const model = route?.model || fallbackModels.find(Boolean)!;
+  return { ...route, model };
+}
+
+// Receives each piece of text as it arrives; the final AIResponse still carries the full content
+export type StreamHandler = (chunk: string) => void;
+
+export type TaskType = "text" | "structured";
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  // The server requests go to, for providers where it can be configured
+  readonly endpoint?: string;
+  routeFor(task: TaskType): ResolvedRoute;
+  generateContent(prompt: string, systemInstruction?: string): Promise<AIResponse>;
+  generateContentStream(prompt: string, systemInstruction: string | undefined, onChunk: StreamHandler): Promise<AIResponse>;
+  generateStructuredContent<T>(
+    prompt: string,
+    schema: any,
+    systemInstruction?: string
+  ): Promise<StructuredResponse<T>>;
+}
@@ -0,0 +1,184 @@
+import { resolveRoute, type LLMProvider, type LLMProviderSettings, type AIResponse, type StructuredResponse, type LLMUsage, type StreamHandler, type ResolvedRoute, type TaskType } from "./LLMProvider";
+import { classifyError, parseRetryAfterHeader, LLMError } from "./errors";
+import { readLines, parseEventData } from "./lines";
+
+// Self-hosted models served over plain HTTP: Ollama (/api/chat) or llama.cpp (/completion)
+export class LocalProvider implements LLMProvider {
+  readonly name = "local" as const;
+  private baseUrl: string;
+  private text: ResolvedRoute;
+  private structured: ResolvedRoute;
+  private signal?: AbortSignal;
+  private flavor: "ollama" | "llamacpp";
+
+  constructor(settings: LLMProviderSettings = {}) {
+    this.flavor = settings.flavor || "ollama";
+    const defaultUrl = this.flavor === "ollama" ? "http://localhost:11434" : "http://localhost:8080";
+    this.baseUrl = (settings.baseUrl || process.env.LOCAL_LLM_URL || defaultUrl).replace(/\/$/, "");
+    this.text = resolveRoute(settings.text, settings.model, "llama3.1");
+    this.structured = resolveRoute(settings.structured, settings.structuredModel, this.text.model);
+    this.signal = settings.signal;
+  }
+
+  get endpoint() {
+    return this.baseUrl;
+  }
+
+  routeFor(task: TaskType): ResolvedRoute {
+    return task === "text" ? this.text : this.structured;
+  }
+
+  async generateContent(prompt: string, systemInstruction?: string): Promise<AIResponse> {
+    try {
+      const { content, usage } = await this.complete(this.text, prompt, systemInstruction);
+      return { content, success: true, usage };
+    } catch (error: any) {
+      console.error("Local LLM error:", error);
+      return {
+        content: "",
+        success: false,
+        error: error.message || "Failed to generate content",
+        ...classifyError(error)
+      };
+    }
+  }
+
+  async generateContentStream(prompt: string, systemInstruction: string | undefined, onChunk: StreamHandler): Promise<AIResponse> {
+    try {
+      const res = this.flavor === "llamacpp"
+        ? await this.post("/completion", {
+            ...this.llamacppSampling(this.text),
+            prompt: this.flatten(prompt, systemInstruction),
+            stream: true
+          })
+        : await this.post("/api/chat", {
+            ...this.ollamaSampling(this.text),
+            stream: true,
+            messages: this.messages(prompt, systemInstruction)
+          });
+
+      let content = "";
+      let usage = this.toUsage(this.text.model);
+      for await (const line of readLines(res.body!)) {
+        // llama.cpp streams server-sent events, Ollama streams one JSON object per line
+        const event = this.flavor === "llamacpp" ? parseEventData(line) : JSON.parse(line);
+        if (!event) {
+          continue;
+        }
+        const text = this.flavor === "llamacpp" ? event.content : event.message?.content;
+        if (text) {
+          content += text;
+          onChunk(text);
+        }
+        if (this.flavor === "llamacpp" && event.stop) {
+          usage = this.toUsage(this.text.model, event.tokens_evaluated, event.tokens_predicted);
+        } else if (event.done) {
+          usage = this.toUsage(this.text.model, event.prompt_eval_count, event.eval_count);
+        }
+      }
+
+      return { content, success: true, usage };
+    } catch (error: any) {
+      console.error("Local LLM streaming error:", error);
+      return {
+        content: "",
+        success: false,
+        error: error.message || "Failed to generate content",
+        ...classifyError(error)
+      };
+    }
+  }
+
+  async generateStructuredContent<T>(
+    prompt: string,
+    schema: any,
+    systemInstruction?: string
+  ): Promise<StructuredResponse<T>> {
+    try {
+      const { content: rawJson, usage } = await this.complete(this.structured, prompt, systemInstruction, schema);
+      if (!rawJson) {
+        throw new Error("Empty response from model");
+      }
+      return { data: JSON.parse(rawJson), success: true, usage };
+    } catch (error: any) {
+      console.error("Local LLM structured generation error:", error);
+      return {
+        data: null,
+        success: false,
+        error: error.message || "Failed to generate structured content",
+        ...classifyError(error)
+      };
+    }
+  }
+
+  private async complete(route: ResolvedRoute, prompt: string, systemInstruction?: string, schema?: any): Promise<{ content: string; usage: LLMUsage }> {
+    if (this.flavor === "llamacpp") {
+      // llama.cpp serves a single loaded model, so the route's model name is ignored here
+      const res = await this.post("/completion", {
+        ...this.llamacppSampling(route),
+        prompt: this.flatten(prompt, systemInstruction),
+        json_schema: schema
+      });
+      const body = await res.json();
+      return {
+        content: body.content || "",
+        usage: this.toUsage(route.model, body.tokens_evaluated, body.tokens_predicted)
+      };
+    }
+
+    const res = await this.post("/api/chat", {
+      ...this.ollamaSampling(route),
+      stream: false,
+      format: schema,
+      messages: this.messages(prompt, systemInstruction)
+    });
+    const body = await res.json();
+    return {
+      content: body.message?.content || "",
+      usage: this.toUsage(route.model, body.prompt_eval_count, body.eval_count)
+    };
+  }
+
+  private ollamaSampling(route: ResolvedRoute) {
+    return {
+      model: route.model,
+      options: { temperature: route.temperature, num_predict: route.maxOutputTokens }
+    };
+  }
+
+  private llamacppSampling(route: ResolvedRoute) {
+    return { temperature: route.temperature, n_predict: route.maxOutputTokens };
+  }
+
+  private messages(prompt: string, systemInstruction?: string) {
+    return [
+      ...(systemInstruction ? [{ role: "system", content: systemInstruction }] : []),
+      { role: "user", content: prompt }
+    ];
+  }
+
+  // llama.cpp's /completion takes a raw prompt with no separate system role
+  private flatten(prompt: string, systemInstruction?: string): string {
+    return systemInstruction ? `${systemInstruction}\n\n${prompt}` : prompt;
+  }
+
+  private toUsage(model: string, promptTokens = 0, completionTokens = 0): LLMUsage {
+    return { model, promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  private async post(path: string, payload: unknown): Promise<Response> {
+    const res = await fetch(`${this.baseUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      signal: this.signal
+    });
+
+    if (!res.ok) {
+      const text = (await res.text()) || res.statusText;
+      throw new LLMError(`${res.status}: ${text}`, res.status, parseRetryAfterHeader(res.headers.get("retry-after")));
+    }
+
+    return res;
+  }
+}
@@ -0,0 +1,124 @@
+import type { AgentUsage, ProjectBudget } from "@shared/schema";
+import { estimateCost } from "./pricing";
+import type { LLMProvider, LLMUsage, AIResponse, StructuredResponse, StreamHandler, TaskType } from "./LLMProvider";
+
+export function emptyUsage(): AgentUsage {
+  return {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    latencyMs: 0,
+    models: []
+  };
+}
+
+export function addUsage(a: AgentUsage | undefined, b: AgentUsage): AgentUsage {
+  const base = a || emptyUsage();
+  return {
+    calls: base.calls + b.calls,
+    promptTokens: base.promptTokens + b.promptTokens,
+    completionTokens: base.completionTokens + b.completionTokens,
+    totalTokens: base.totalTokens + b.totalTokens,
+    costUsd: base.costUsd + b.costUsd,
+    latencyMs: base.latencyMs + b.latencyMs,
+    models: Array.from(new Set([...base.models, ...b.models]))
+  };
+}
+
+export function totalUsage(usage: Record<string, AgentUsage> = {}): AgentUsage {
+  return Object.values(usage).reduce((sum, item) => addUsage(sum, item), emptyUsage());
+}
+
+// Returns why `spent` has reached the budget, or null while there is room left
+export function budgetExceeded(budget: ProjectBudget | undefined, spent: AgentUsage): string | null {
+  if (budget?.maxTokens !== undefined && spent.totalTokens >= budget.maxTokens) {
+    return `Token budget exhausted: ${spent.totalTokens} of ${budget.maxTokens} tokens used`;
+  }
+  if (budget?.maxCostUsd !== undefined && spent.costUsd >= budget.maxCostUsd) {
+    return `Cost budget exhausted: $${spent.costUsd.toFixed(4)} of $${budget.maxCostUsd.toFixed(2)} spent`;
+  }
+  return null;
+}
+
+// Collects usage for every call made through the providers it meters.
+// With a budget, `spentElsewhere` reports what the rest of the project has used so far,
+// including agents running beside this one.
+export class UsageMeter {
+  usage: AgentUsage = emptyUsage();
+
+  constructor(private budget?: ProjectBudget, private spentElsewhere: () => AgentUsage = emptyUsage) {}
+
+  get budgetError(): string | null {
+    return budgetExceeded(this.budget, addUsage(this.spentElsewhere(), this.usage));
+  }
+
+  record(usage: LLMUsage | undefined, latencyMs: number) {
+    this.usage = addUsage(this.usage, {
+      calls: 1,
+      promptTokens: usage?.promptTokens || 0,
+      completionTokens: usage?.completionTokens || 0,
+      totalTokens: usage?.totalTokens || 0,
+      costUsd: usage ? estimateCost(usage.model, usage.promptTokens, usage.completionTokens) : 0,
+      latencyMs,
+      models: usage ? [usage.model] : []
+    });
+  }
+}
+
+export class MeteredProvider implements LLMProvider {
+  constructor(private inner: LLMProvider, private meter: UsageMeter) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get endpoint() {
+    return this.inner.endpoint;
+  }
+
+  routeFor(task: TaskType) {
+    return this.inner.routeFor(task);
+  }
+
+  async generateContent(prompt: string, systemInstruction?: string): Promise<AIResponse> {
+    const budgetError = this.meter.budgetError;
+    if (budgetError) {
+      return { content: "", success: false, error: budgetError };
+    }
+
+    const start = Date.now();
+    const response = await this.inner.generateContent(prompt, systemInstruction);
+    this.meter.record(response.usage, Date.now() - start);
+    return response;
+  }
+
+  async generateContentStream(prompt: string, systemInstruction: string | undefined, onChunk: StreamHandler): Promise<AIResponse> {
+    const budgetError = this.meter.budgetError;
+    if (budgetError) {
+      return { content: "", success: false, error: budgetError };
+    }
+
+    const start = Date.now();
+    const response = await this.inner.generateContentStream(prompt, systemInstruction, onChunk);
+    this.meter.record(response.usage, Date.now() - start);
+    return response;
+  }
+
+  async generateStructuredContent<T>(
+    prompt: string,
+    schema: any,
+    systemInstruction?: string
+  ): Promise<StructuredResponse<T>> {
+    const budgetError = this.meter.budgetError;
+    if (budgetError) {
+      return { data: null, success: false, error: budgetError };
+    }
+
+    const start = Date.now();
+    const response = await this.inner.generateStructuredContent<T>(prompt, schema, systemInstruction);
+    this.meter.record(response.usage, Date.now() - start);
+    return response;
+  }
+}
@@ -0,0 +1,172 @@
+import { resolveRoute, type LLMProvider, type LLMProviderSettings, type AIResponse, type StructuredResponse, type LLMUsage, type StreamHandler, type ResolvedRoute, type TaskType } from "./LLMProvider";
+import { classifyError, parseRetryAfterHeader, LLMError } from "./errors";
+import { readLines, parseEventData } from "./lines";
+
+// Works against api.openai.com and any server exposing /v1/chat/completions
+export class OpenAIProvider implements LLMProvider {
+  readonly name = "openai" as const;
+  private baseUrl: string;
+  private apiKey: string;
+  private text: ResolvedRoute;
+  private structured: ResolvedRoute;
+  private signal?: AbortSignal;
+
+  constructor(settings: LLMProviderSettings = {}) {
+    this.baseUrl = (settings.baseUrl || process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/$/, "");
+    this.apiKey = settings.apiKey || process.env.OPENAI_API_KEY || "";
+    this.text = resolveRoute(settings.text, settings.model, "gpt-4o-mini");
+    this.structured = resolveRoute(settings.structured, settings.structuredModel, settings.model, "gpt-4o");
+    this.signal = settings.signal;
+  }
+
+  get endpoint() {
+    return this.baseUrl;
+  }
+
+  routeFor(task: TaskType): ResolvedRoute {
+    return task === "text" ? this.text : this.structured;
+  }
+
+  async generateContent(prompt: string, systemInstruction?: string): Promise<AIResponse> {
+    try {
+      const { content, usage } = await this.chat(this.text, prompt, systemInstruction);
+      return { content, success: true, usage };
+    } catch (error: any) {
+      console.error("OpenAI API error:", error);
+      return {
+        content: "",
+        success: false,
+        error: error.message || "Failed to generate content",
+        ...classifyError(error)
+      };
+    }
+  }
+
+  async generateContentStream(prompt: string, systemInstruction: string | undefined, onChunk: StreamHandler): Promise<AIResponse> {
+    try {
+      const res = await this.request({
+        ...this.sampling(this.text),
+        messages: this.messages(prompt, systemInstruction),
+        stream: true,
+        stream_options: { include_usage: true }
+      });
+
+      let content = "";
+      let usage: LLMUsage = { model: this.text.model, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      for await (const line of readLines(res.body!)) {
+        const event = parseEventData(line);
+        if (!event) {
+          continue;
+        }
+        const choice = event.choices?.[0];
+        if (choice?.finish_reason === "content_filter") {
+          throw new LLMError("Response blocked by content filter", undefined, undefined, "safety");
+        }
+        const text = choice?.delta?.content || "";
+        if (text) {
+          content += text;
+          onChunk(text);
+        }
+        if (event.usage) {
+          usage = this.toUsage(event.model || this.text.model, event.usage);
+        }
+      }
+
+      return { content, success: true, usage };
+    } catch (error: any) {
+      console.error("OpenAI streaming error:", error);
+      return {
+        content: "",
+        success: false,
+        error: error.message || "Failed to generate content",
+        ...classifyError(error)
+      };
+    }
+  }
+
+  async generateStructuredContent<T>(
+    prompt: string,
+    schema: any,
+    systemInstruction?: string
+  ): Promise<StructuredResponse<T>> {
+    try {
+      const { content: rawJson, usage } = await this.chat(this.structured, prompt, systemInstruction, {
+        type: "json_schema",
+        json_schema: { name: "response", schema }
+      });
+      if (!rawJson) {
+        throw new Error("Empty response from model");
+      }
+      return { data: JSON.parse(rawJson), success: true, usage };
+    } catch (error: any) {
+      console.error("OpenAI structured generation error:", error);
+      return {
+        data: null,
+        success: false,
+        error: error.message || "Failed to generate structured content",
+        ...classifyError(error)
+      };
+    }
+  }
+
+  private async chat(route: ResolvedRoute, prompt: string, systemInstruction?: string, responseFormat?: any): Promise<{ content: string; usage: LLMUsage }> {
+    const res = await this.request({
+      ...this.sampling(route),
+      messages: this.messages(prompt, systemInstruction),
+      response_format: responseFormat
+    });
+
+    const body = await res.json();
+    if (body.choices?.[0]?.finish_reason === "content_filter") {
+      throw new LLMError("Response blocked by content filter", undefined, undefined, "safety");
+    }
+    return {
+      content: body.choices?.[0]?.message?.content || "",
+      usage: this.toUsage(body.model || route.model, body.usage)
+    };
+  }
+
+  // Safety settings are Gemini-specific and have no equivalent here
+  private sampling(route: ResolvedRoute) {
+    return {
+      model: route.model,
+      temperature: route.temperature,
+      max_tokens: route.maxOutputTokens
+    };
+  }
+
+  private messages(prompt: string, systemInstruction?: string) {
+    return [
+      ...(systemInstruction ? [{ role: "system", content: systemInstruction }] : []),
+      { role: "user", content: prompt }
+    ];
+  }
+
+  private async request(payload: unknown): Promise<Response> {
+    const res = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify(payload),
+      signal: this.signal
+    });
+
+    if (!res.ok) {
+      const text = (await res.text()) || res.statusText;
+      throw new LLMError(`${res.status}: ${text}`, res.status, parseRetryAfterHeader(res.headers.get("retry-after")));
+    }
+
+    return res;
+  }
+
+  private toUsage(model: string, usage: any): LLMUsage {
+    return {
+      model,
+      promptTokens: usage?.prompt_tokens || 0,
+      completionTokens: usage?.completion_tokens || 0,
+      totalTokens: usage?.total_tokens || 0
+    };
+  }
+}
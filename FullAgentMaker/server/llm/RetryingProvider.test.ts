@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { FakeProvider, type FakeResponse } from "./FakeProvider";
+import { RetryingProvider, type FailedAttempt, type RetryPolicy } from "./RetryingProvider";
+
+// A fake whose every call fails as scripted, wrapped in a RetryingProvider that records each failure
+function failing(response: FakeResponse, policy: RetryPolicy) {
+  const fake = new FakeProvider({ script: { responses: [response] } }, "Requirement");
+  const failures: FailedAttempt[] = [];
+  const provider = new RetryingProvider(fake, policy, failure => { failures.push(failure); });
+  return { fake, provider, failures };
+}
+
+const rateLimited = (retryAfterMs?: number): FakeResponse =>
+  ({ error: "Too many requests", errorKind: "rate_limit", retryAfterMs });
+
+describe("RetryingProvider", () => {
+  it("waits as long as the server asks when that is within maxDelayMs", async () => {
+    const { fake, provider, failures } = failing(rateLimited(5), { maxAttempts: 2, maxDelayMs: 100 });
+
+    expect((await provider.generateContent("prompt")).success).toBe(false);
+    expect(fake.calls).toHaveLength(2);
+    expect(failures.map(failure => failure.retryInMs)).toEqual([5, null]);
+  });
+
+  it("gives up at once when the server asks for longer than maxDelayMs", async () => {
+    const { fake, provider, failures } = failing(rateLimited(60_000), { maxAttempts: 3, maxDelayMs: 100 });
+
+    const response = await provider.generateContent("prompt");
+    expect(response).toMatchObject({ success: false, errorKind: "rate_limit", retryAfterMs: 60_000 });
+    expect(fake.calls).toHaveLength(1);
+    expect(failures.map(failure => failure.retryInMs)).toEqual([null]);
+  });
+
+  it("backs off within the exponential window when the server names no delay", async () => {
+    const { fake, provider, failures } = failing(rateLimited(), { maxAttempts: 3, baseDelayMs: 2, maxDelayMs: 3 });
+
+    expect((await provider.generateStructuredContent("prompt", { type: "object" })).success).toBe(false);
+    expect(fake.calls).toHaveLength(3);
+    const [first, second, last] = failures.map(failure => failure.retryInMs);
+    expect(first).toBeGreaterThanOrEqual(0);
+    expect(first).toBeLessThanOrEqual(2);
+    expect(second).toBeGreaterThanOrEqual(0);
+    expect(second).toBeLessThanOrEqual(3);
+    expect(last).toBeNull();
+  });
+
+  it("does not retry failures that are not transient", async () => {
+    const { fake, provider, failures } = failing({ error: "Prompt blocked", errorKind: "safety" }, { maxAttempts: 3 });
+
+    expect(await provider.generateContent("prompt")).toMatchObject({ success: false, errorKind: "safety" });
+    expect(fake.calls).toHaveLength(1);
+    expect(failures).toEqual([expect.objectContaining({ errorKind: "safety", retryInMs: null })]);
+  });
+});
@@ -0,0 +1,114 @@
+import { isRetryable, type LLMErrorKind } from "./errors";
+import { sleep } from "./sleep";
+import type { LLMProvider, AIResponse, StructuredResponse, StreamHandler, TaskType } from "./LLMProvider";
+
+export interface RetryPolicy {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface FailedAttempt {
+  attempt: number;
+  maxAttempts: number;
+  errorKind: LLMErrorKind;
+  error: string;
+  retryInMs: number | null; // null when giving up
+}
+
+const DEFAULT_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+// Retries transient failures (rate limits, timeouts, 5xx) with jittered exponential backoff
+export class RetryingProvider implements LLMProvider {
+  private policy: Required<RetryPolicy>;
+
+  constructor(
+    private inner: LLMProvider,
+    policy: RetryPolicy = {},
+    private onFailure?: (failure: FailedAttempt) => void | Promise<void>,
+    private signal?: AbortSignal
+  ) {
+    this.policy = { ...DEFAULT_POLICY, ...policy };
+  }
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get endpoint() {
+    return this.inner.endpoint;
+  }
+
+  routeFor(task: TaskType) {
+    return this.inner.routeFor(task);
+  }
+
+  generateContent(prompt: string, systemInstruction?: string): Promise<AIResponse> {
+    return this.withRetry(() => this.inner.generateContent(prompt, systemInstruction));
+  }
+
+  // Once text has reached the caller a retry would duplicate it, so only failures before the first chunk retry
+  generateContentStream(prompt: string, systemInstruction: string | undefined, onChunk: StreamHandler): Promise<AIResponse> {
+    let streamed = false;
+    return this.withRetry(
+      () => this.inner.generateContentStream(prompt, systemInstruction, chunk => {
+        streamed = true;
+        onChunk(chunk);
+      }),
+      () => !streamed
+    );
+  }
+
+  generateStructuredContent<T>(
+    prompt: string,
+    schema: any,
+    systemInstruction?: string
+  ): Promise<StructuredResponse<T>> {
+    return this.withRetry(() => this.inner.generateStructuredContent<T>(prompt, schema, systemInstruction));
+  }
+
+  private async withRetry<R extends AIResponse | StructuredResponse<any>>(
+    call: () => Promise<R>,
+    canRetry: () => boolean = () => true
+  ): Promise<R> {
+    const { maxAttempts } = this.policy;
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await call();
+      if (response.success) {
+        return response;
+      }
+
+      const errorKind = response.errorKind || "unknown";
+      const willRetry = attempt < maxAttempts && isRetryable(errorKind) && canRetry() && !this.signal?.aborted;
+      const retryInMs = willRetry ? this.delayFor(attempt, response.retryAfterMs) : null;
+
+      await this.onFailure?.({
+        attempt,
+        maxAttempts,
+        errorKind,
+        error: response.error || "Unknown error",
+        retryInMs
+      });
+
+      if (retryInMs === null) {
+        return response;
+      }
+      await sleep(retryInMs, this.signal);
+    }
+  }
+
+  // Full jitter over the exponential window; a server-provided retry-after wins. A server asking
+  // for longer than maxDelayMs gets no retry at all (null): an earlier one would only be refused.
+  private delayFor(attempt: number, retryAfterMs?: number): number | null {
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs <= this.policy.maxDelayMs ? Math.max(0, retryAfterMs) : null;
+    }
+    const window = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * window);
+  }
+}
@@ -0,0 +1,84 @@
+export const LLM_ERROR_KINDS = [
+  "rate_limit",
+  "timeout",
+  "safety",
+  "invalid_key",
+  "server",
+  "bad_request",
+  "cancelled",
+  "unknown"
+] as const;
+
+export type LLMErrorKind = (typeof LLM_ERROR_KINDS)[number];
+
+const RETRYABLE: LLMErrorKind[] = ["rate_limit", "timeout", "server"];
+
+// Thrown by providers when they know more about a failure than a plain Error carries
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public retryAfterMs?: number,
+    public kind?: LLMErrorKind
+  ) {
+    super(message);
+    this.name = "LLMError";
+  }
+}
+
+export function isRetryable(kind: LLMErrorKind | undefined): boolean {
+  return kind !== undefined && RETRYABLE.includes(kind);
+}
+
+export function classifyError(error: any): { errorKind: LLMErrorKind; retryAfterMs?: number } {
+  const status: number | undefined = error?.status ?? error?.response?.status;
+  const message = String(error?.message || "");
+  const retryAfterMs = error?.retryAfterMs ?? parseRetryDelay(message);
+
+  if (error?.kind) {
+    return { errorKind: error.kind, retryAfterMs };
+  }
+  // The run was stopped; AbortSignal.timeout() raises TimeoutError instead, which still retries
+  if (error?.name === "AbortError" || error?.name === "APIUserAbortError") {
+    return { errorKind: "cancelled" };
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|rate limit|quota/i.test(message)) {
+    return { errorKind: "rate_limit", retryAfterMs };
+  }
+  if (status === 401 || status === 403 || /API key not valid|invalid api key|UNAUTHENTICATED|PERMISSION_DENIED/i.test(message)) {
+    return { errorKind: "invalid_key" };
+  }
+  if (status === 408 || status === 504 || error?.name === "TimeoutError" ||
+      /timed? ?out|ETIMEDOUT|DEADLINE_EXCEEDED/i.test(message)) {
+    return { errorKind: "timeout", retryAfterMs };
+  }
+  if ((status !== undefined && status >= 500) || /ECONNRESET|ECONNREFUSED|UNAVAILABLE|overloaded/i.test(message)) {
+    return { errorKind: "server", retryAfterMs };
+  }
+  if (/safety|blocked/i.test(message)) {
+    return { errorKind: "safety" };
+  }
+  if (status === 400) {
+    return { errorKind: "bad_request" };
+  }
+  return { errorKind: "unknown" };
+}
+
+// Retry-After header: either delay-seconds or an HTTP date
+export function parseRetryAfterHeader(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Gemini reports RetryInfo inside the error body, e.g. "retryDelay": "27s"
+function parseRetryDelay(message: string): number | undefined {
+  const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? parseFloat(match[1]) * 1000 : undefined;
+}
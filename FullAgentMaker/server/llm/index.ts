@@ -0,0 +1,49 @@
+import { GeminiService } from "../gemini";
+import { OpenAIProvider } from "./OpenAIProvider";
+import { LocalProvider } from "./LocalProvider";
+import { FakeProvider } from "./FakeProvider";
+import { CassetteProvider, type CassetteSettings } from "./CassetteProvider";
+import type { LLMProvider, LLMProviderSettings } from "./LLMProvider";
+
+export * from "./LLMProvider";
+export { FakeProvider, fingerprintPrompt, type FakeScript, type FakeResponse } from "./FakeProvider";
+export { CassetteProvider, flushCassettes, type CassetteSettings, type CassetteEntry } from "./CassetteProvider";
+export { MeteredProvider, UsageMeter, emptyUsage, addUsage, totalUsage, budgetExceeded } from "./MeteredProvider";
+export { estimateCost } from "./pricing";
+export { RetryingProvider, type RetryPolicy, type FailedAttempt } from "./RetryingProvider";
+export { CachingProvider, cacheSettingsFromEnv, type CacheSettings, type ResponseCache } from "./CachingProvider";
+export { resolveAgentRouting, type RoutingTable } from "./routing";
+export { LLMError, LLM_ERROR_KINDS, classifyError, isRetryable, type LLMErrorKind } from "./errors";
+
+export function createLLMProvider(settings: LLMProviderSettings = {}, agent?: string): LLMProvider {
+  const provider = createBaseProvider(settings, agent);
+  const cassette = cassetteFromEnv();
+
+  return cassette ? new CassetteProvider(provider, cassette, agent) : provider;
+}
+
+// Cassettes read and write files, so only the server's own environment may point them anywhere
+function cassetteFromEnv(): CassetteSettings | undefined {
+  const mode = process.env.LLM_CASSETTE_MODE;
+  if (mode !== "record" && mode !== "replay") {
+    return undefined;
+  }
+  return { mode, path: process.env.LLM_CASSETTE_PATH || "cassettes/llm.json" };
+}
+
+function createBaseProvider(settings: LLMProviderSettings, agent?: string): LLMProvider {
+  const provider = settings.provider || process.env.LLM_PROVIDER || "gemini";
+
+  switch (provider) {
+    case "gemini":
+      return new GeminiService(settings);
+    case "openai":
+      return new OpenAIProvider(settings);
+    case "local":
+      return new LocalProvider(settings);
+    case "fake":
+      return new FakeProvider(settings, agent);
+    default:
+      throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+}
@@ -0,0 +1,36 @@
+// Splits a streamed HTTP body into lines, for NDJSON and server-sent event responses
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffered = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffered += decoder.decode(value, { stream: true });
+
+    let newline: number;
+    while ((newline = buffered.indexOf("\n")) !== -1) {
+      const line = buffered.slice(0, newline).trim();
+      buffered = buffered.slice(newline + 1);
+      if (line) {
+        yield line;
+      }
+    }
+  }
+
+  if (buffered.trim()) {
+    yield buffered.trim();
+  }
+}
+
+// Payload of an SSE `data:` line, or null for comments, other fields and the [DONE] marker
+export function parseEventData(line: string): any | null {
+  if (!line.startsWith("data:")) {
+    return null;
+  }
+  const data = line.slice(5).trim();
+  return data && data !== "[DONE]" ? JSON.parse(data) : null;
+}
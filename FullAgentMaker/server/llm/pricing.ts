@@ -0,0 +1,19 @@
+// USD per million tokens; models not listed here (local, fake, unknown) are treated as free
+const PRICING: Record<string, { input: number; output: number }> = {
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+};
+
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  // Providers may report dated variants such as "gpt-4o-mini-2024-07-18"
+  const key = Object.keys(PRICING)
+    .sort((a, b) => b.length - a.length)
+    .find(name => model === name || model.startsWith(`${name}-`));
+  if (!key) {
+    return 0;
+  }
+  const price = PRICING[key];
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,19 @@
+import type { AgentRouting, ModelRoute } from "@shared/schema";
+
+// Routing tables are keyed by agent name; the "default" entry applies to every agent
+export type RoutingTable = Record<string, AgentRouting>;
+
+// Fields left undefined in a later route keep the earlier value
+const mergeRoutes = (...routes: Array<ModelRoute | undefined>): ModelRoute | undefined => {
+  const entries = routes.flatMap(route => Object.entries(route || {})).filter(([, value]) => value !== undefined);
+  return entries.length ? Object.fromEntries(entries) : undefined;
+};
+
+// Later tables win, so pass the server-wide table before a project's overrides
+export function resolveAgentRouting(agent: string, ...tables: Array<RoutingTable | undefined>): AgentRouting {
+  const layers = tables.flatMap(table => [table?.default, table?.[agent]]);
+  return {
+    text: mergeRoutes(...layers.map(layer => layer?.text)),
+    structured: mergeRoutes(...layers.map(layer => layer?.structured))
+  };
+}
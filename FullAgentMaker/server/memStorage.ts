@@ -0,0 +1,400 @@
+import { 
+  type User, 
+  type InsertUser,
+  type Project,
+  type InsertProject,
+  type AgentLog,
+  type InsertAgentLog,
+  type ProjectFile,
+  type InsertProjectFile,
+  type FileRevision,
+  type ProjectRun,
+  type InsertProjectRun,
+  type AgentState,
+  type LlmCacheEntry,
+  type InsertLlmCacheEntry,
+  type RunJob,
+  type InsertRunJob,
+  type AgentRoute,
+  type AgentRouting
+} from "@shared/schema";
+import { randomUUID } from "crypto";
+import type { IStorage } from "./storage";
+import { sortValue, toProjectPage, type ProjectListOptions, type ProjectPage } from "./projectList";
+
+// Keeps everything in process memory; nothing survives a restart
+export class MemStorage implements IStorage {
+  protected users: Map<string, User>;
+  protected projects: Map<string, Project>;
+  protected agentLogs: Map<string, AgentLog>;
+  protected projectFiles: Map<string, ProjectFile>;
+  protected fileRevisions: Map<string, FileRevision>;
+  protected projectRuns: Map<string, ProjectRun>;
+  protected llmCache: Map<string, LlmCacheEntry>;
+  protected runJobs: Map<string, RunJob>;
+  protected agentRoutes: Map<string, AgentRoute>;
+  // The same files and revisions by project and path, so a save doesn't scan every project's
+  private filesByProject: Map<string, Map<string, ProjectFile>> = new Map();
+  private revisionsByProject: Map<string, Map<string, FileRevision[]>> = new Map();
+
+  constructor() {
+    this.users = new Map();
+    this.projects = new Map();
+    this.agentLogs = new Map();
+    this.projectFiles = new Map();
+    this.fileRevisions = new Map();
+    this.projectRuns = new Map();
+    this.llmCache = new Map();
+    this.runJobs = new Map();
+    this.agentRoutes = new Map();
+  }
+
+  // User methods
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.username === username,
+    );
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = randomUUID();
+    const user: User = { ...insertUser, id };
+    this.users.set(id, user);
+    return user;
+  }
+
+  // Project methods
+  async getProject(id: string): Promise<Project | undefined> {
+    return this.projects.get(id);
+  }
+
+  async getProjectsByStatus(status: string): Promise<Project[]> {
+    return Array.from(this.projects.values()).filter(project => project.status === status);
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const id = randomUUID();
+    const now = new Date();
+    const project: Project = {
+      ...insertProject,
+      id,
+      ownerId: insertProject.ownerId || null,
+      status: "pending",
+      state: null,
+      createdAt: now,
+      updatedAt: now,
+      deletedAt: null
+    };
+    this.projects.set(id, project);
+    return project;
+  }
+
+  async updateProjectStatus(id: string, status: string): Promise<void> {
+    const project = this.projects.get(id);
+    if (project) {
+      project.status = status;
+      project.updatedAt = new Date();
+      this.projects.set(id, project);
+    }
+  }
+
+  async updateProjectState(id: string, state: AgentState): Promise<void> {
+    const project = this.projects.get(id);
+    if (project) {
+      project.state = state;
+      project.updatedAt = new Date();
+      this.projects.set(id, project);
+    }
+  }
+
+  async updateProjectConfig(id: string, config: unknown): Promise<void> {
+    const project = this.projects.get(id);
+    if (project) {
+      project.config = config;
+      project.updatedAt = new Date();
+      this.projects.set(id, project);
+    }
+  }
+
+  async listProjects(options: ProjectListOptions): Promise<ProjectPage> {
+    const search = options.search?.toLowerCase();
+    const direction = options.order === "asc" ? 1 : -1;
+    const compare = (a: [string, string], b: [string, string]) =>
+      a[0] !== b[0] ? (a[0] < b[0] ? -1 : 1) : a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0;
+    const key = (project: Project): [string, string] => [sortValue(project, options.sort), project.id];
+    const after = options.after && [options.after.value, options.after.id] as [string, string];
+
+    const rows = Array.from(this.projects.values())
+      .filter(project =>
+        (options.deleted === "include" || (options.deleted === "only") === !!project.deletedAt) &&
+        (!options.status || (options.status as string[]).includes(project.status)) &&
+        (!options.ownerId || project.ownerId === options.ownerId) &&
+        (!options.createdAfter || project.createdAt >= options.createdAfter) &&
+        (!options.createdBefore || project.createdAt <= options.createdBefore) &&
+        (!search || `${project.name}\n${project.description}`.toLowerCase().includes(search)) &&
+        (!after || compare(key(project), after) * direction > 0))
+      .sort((a, b) => compare(key(a), key(b)) * direction);
+    return toProjectPage(rows.slice(0, options.limit + 1), options);
+  }
+
+  async softDeleteProject(id: string): Promise<void> {
+    const project = this.projects.get(id);
+    if (project) {
+      project.deletedAt = new Date();
+    }
+  }
+
+  async restoreProject(id: string): Promise<void> {
+    const project = this.projects.get(id);
+    if (project) {
+      project.deletedAt = null;
+    }
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    this.projects.delete(id);
+    this.filesByProject.delete(id);
+    this.revisionsByProject.delete(id);
+    const maps: Map<string, { projectId: string }>[] = [
+      this.agentLogs,
+      this.projectFiles,
+      this.fileRevisions,
+      this.projectRuns,
+      this.runJobs
+    ];
+    for (const map of maps) {
+      map.forEach((entry, key) => {
+        if (entry.projectId === id) {
+          map.delete(key);
+        }
+      });
+    }
+  }
+
+  // Agent log methods
+  async getProjectLogs(projectId: string): Promise<AgentLog[]> {
+    return Array.from(this.agentLogs.values())
+      .filter(log => log.projectId === projectId)
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+
+  async addAgentLog(insertLog: InsertAgentLog): Promise<AgentLog> {
+    const id = randomUUID();
+    const log: AgentLog = {
+      ...insertLog,
+      id,
+      metadata: insertLog.metadata || null,
+      timestamp: new Date()
+    };
+    this.agentLogs.set(id, log);
+    return log;
+  }
+
+  // Project file methods
+  async getProjectFiles(projectId: string): Promise<ProjectFile[]> {
+    return Array.from(this.filesByProject.get(projectId)?.values() || [])
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  // Writing the content a path already has changes nothing and records no revision
+  async saveProjectFile(insertFile: InsertProjectFile): Promise<ProjectFile> {
+    const existing = this.filesByProject.get(insertFile.projectId)?.get(insertFile.path);
+    if (existing && existing.content === insertFile.content) {
+      return existing;
+    }
+
+    const now = new Date();
+    const file: ProjectFile = {
+      ...insertFile,
+      id: existing?.id || randomUUID(),
+      language: insertFile.language || null,
+      agentName: insertFile.agentName || null,
+      revision: this.latestRevision(insertFile.projectId, insertFile.path) + 1,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+    this.putFile(file);
+    this.addRevision(file);
+    return file;
+  }
+
+  // An edit made outside a run, so its revision has no agent
+  async updateProjectFile(id: string, content: string): Promise<void> {
+    const file = this.projectFiles.get(id);
+    if (file && file.content !== content) {
+      file.content = content;
+      file.size = content.length;
+      file.revision = this.latestRevision(file.projectId, file.path) + 1;
+      file.updatedAt = new Date();
+      this.putFile(file);
+      this.addRevision({ ...file, agentName: null });
+    }
+  }
+
+  // Without agent names every file of the project goes
+  async deleteProjectFiles(projectId: string, agentNames?: string[]): Promise<void> {
+    const files = this.filesByProject.get(projectId);
+    files?.forEach((file, path) => {
+      if (!agentNames || agentNames.includes(file.agentName || "")) {
+        files.delete(path);
+        this.projectFiles.delete(file.id);
+      }
+    });
+  }
+
+  async getFileRevisions(projectId: string, path: string): Promise<FileRevision[]> {
+    return [...this.revisionsOf(projectId, path)];
+  }
+
+  async getFileRevision(projectId: string, path: string, revision: number): Promise<FileRevision | undefined> {
+    return this.revisionsOf(projectId, path).find(entry => entry.revision === revision);
+  }
+
+  // Project run methods
+  async addProjectRun(insertRun: InsertProjectRun): Promise<ProjectRun> {
+    const run: ProjectRun = {
+      ...insertRun,
+      id: randomUUID(),
+      number: this.latestRunNumber(insertRun.projectId) + 1,
+      finishedAt: new Date()
+    };
+    this.projectRuns.set(run.id, run);
+    return run;
+  }
+
+  async getProjectRuns(projectId: string): Promise<ProjectRun[]> {
+    return Array.from(this.projectRuns.values())
+      .filter(run => run.projectId === projectId)
+      .sort((a, b) => a.number - b.number);
+  }
+
+  // Revisions outlive deleted files, so numbering continues where the history left off
+  private latestRevision(projectId: string, path: string): number {
+    return this.revisionsOf(projectId, path).at(-1)?.revision || 0;
+  }
+
+  // Oldest first
+  private revisionsOf(projectId: string, path: string): FileRevision[] {
+    return this.revisionsByProject.get(projectId)?.get(path) || [];
+  }
+
+  // Subclasses loading saved files and revisions add them through these, keeping the indexes whole
+  protected putFile(file: ProjectFile) {
+    this.projectFiles.set(file.id, file);
+    if (!this.filesByProject.has(file.projectId)) {
+      this.filesByProject.set(file.projectId, new Map());
+    }
+    this.filesByProject.get(file.projectId)!.set(file.path, file);
+  }
+
+  protected putRevision(revision: FileRevision) {
+    this.fileRevisions.set(revision.id, revision);
+    if (!this.revisionsByProject.has(revision.projectId)) {
+      this.revisionsByProject.set(revision.projectId, new Map());
+    }
+    const byPath = this.revisionsByProject.get(revision.projectId)!;
+    const revisions = byPath.get(revision.path) || [];
+    revisions.push(revision);
+    revisions.sort((a, b) => a.revision - b.revision);
+    byPath.set(revision.path, revisions);
+  }
+
+  // Read without awaiting, so runs recorded at the same time never share a number
+  private latestRunNumber(projectId: string): number {
+    let latest = 0;
+    this.projectRuns.forEach(run => {
+      if (run.projectId === projectId) {
+        latest = Math.max(latest, run.number);
+      }
+    });
+    return latest;
+  }
+
+  private addRevision(file: ProjectFile) {
+    const revision: FileRevision = {
+      id: randomUUID(),
+      projectId: file.projectId,
+      path: file.path,
+      revision: file.revision,
+      content: file.content,
+      size: file.size,
+      language: file.language,
+      agentName: file.agentName,
+      createdAt: file.updatedAt
+    };
+    this.putRevision(revision);
+  }
+
+  // LLM cache methods
+  async getCachedResponse(key: string): Promise<LlmCacheEntry | undefined> {
+    const entry = this.llmCache.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt.getTime() <= Date.now()) {
+      this.llmCache.delete(key);
+      return undefined;
+    }
+    entry.lastHitAt = new Date();
+    return entry;
+  }
+
+  async setCachedResponse(insertEntry: InsertLlmCacheEntry): Promise<void> {
+    const now = new Date();
+    this.llmCache.set(insertEntry.key, { ...insertEntry, createdAt: now, lastHitAt: now });
+  }
+
+  async pruneCachedResponses(maxEntries: number): Promise<void> {
+    const now = Date.now();
+    const live = Array.from(this.llmCache.values())
+      .filter(entry => entry.expiresAt.getTime() > now)
+      .sort((a, b) => b.lastHitAt.getTime() - a.lastHitAt.getTime());
+
+    // Keep the most recently used entries
+    this.llmCache = new Map(live.slice(0, maxEntries).map(entry => [entry.key, entry]));
+  }
+
+  // Run queue methods, oldest job first
+  async getRunJobs(): Promise<RunJob[]> {
+    return Array.from(this.runJobs.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async addRunJob(insertJob: InsertRunJob): Promise<RunJob> {
+    const id = randomUUID();
+    const job: RunJob = {
+      ...insertJob,
+      id,
+      status: "queued",
+      only: insertJob.only || null,
+      createdAt: new Date(),
+      startedAt: null
+    };
+    this.runJobs.set(id, job);
+    return job;
+  }
+
+  async updateRunJob(id: string, changes: Partial<Pick<RunJob, "status" | "only" | "startedAt">>): Promise<void> {
+    const job = this.runJobs.get(id);
+    if (job) {
+      this.runJobs.set(id, { ...job, ...changes });
+    }
+  }
+
+  async deleteRunJob(id: string): Promise<void> {
+    this.runJobs.delete(id);
+  }
+
+  // Agent routing methods
+  async getAgentRoutes(): Promise<AgentRoute[]> {
+    return Array.from(this.agentRoutes.values());
+  }
+
+  async setAgentRoute(agent: string, routing: AgentRouting): Promise<void> {
+    this.agentRoutes.set(agent, { agent, routing, updatedAt: new Date() });
+  }
+}
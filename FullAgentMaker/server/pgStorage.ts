@@ -0,0 +1,331 @@
+import { and, asc, desc, eq, gte, ilike, inArray, isNotNull, isNull, lte, max, notInArray, or, sql } from "drizzle-orm";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import {
+  users,
+  projects,
+  agentLogs,
+  projectFiles,
+  fileRevisions,
+  projectRuns,
+  llmCache,
+  runJobs,
+  agentRoutes,
+  type User,
+  type InsertUser,
+  type Project,
+  type InsertProject,
+  type AgentLog,
+  type InsertAgentLog,
+  type ProjectFile,
+  type InsertProjectFile,
+  type FileRevision,
+  type ProjectRun,
+  type InsertProjectRun,
+  type AgentState,
+  type LlmCacheEntry,
+  type InsertLlmCacheEntry,
+  type RunJob,
+  type InsertRunJob,
+  type AgentRoute,
+  type AgentRouting
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { toProjectPage, type ProjectListOptions, type ProjectPage } from "./projectList";
+
+// Any drizzle Postgres database works: Neon in production, an embedded Postgres elsewhere
+export type PgStorageDatabase = PgDatabase<PgQueryResultHKT, Record<string, unknown>>;
+
+// Persists everything in the tables declared in shared/schema.ts; apply ./migrations first
+export class PgStorage implements IStorage {
+  constructor(private db: PgStorageDatabase) {}
+
+  // User methods
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Project methods
+  async getProject(id: string): Promise<Project | undefined> {
+    const [project] = await this.db.select().from(projects).where(eq(projects.id, id));
+    return project;
+  }
+
+  async getProjectsByStatus(status: string): Promise<Project[]> {
+    return this.db.select().from(projects).where(eq(projects.status, status));
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const [project] = await this.db.insert(projects).values(insertProject).returning();
+    return project;
+  }
+
+  async updateProjectStatus(id: string, status: string): Promise<void> {
+    await this.db.update(projects).set({ status, updatedAt: new Date() }).where(eq(projects.id, id));
+  }
+
+  async updateProjectState(id: string, state: AgentState): Promise<void> {
+    await this.db.update(projects).set({ state, updatedAt: new Date() }).where(eq(projects.id, id));
+  }
+
+  async updateProjectConfig(id: string, config: unknown): Promise<void> {
+    await this.db.update(projects).set({ config, updatedAt: new Date() }).where(eq(projects.id, id));
+  }
+
+  // Sorts the way cursors compare: dates to the millisecond, text by code point rather than locale
+  async listProjects(options: ProjectListOptions): Promise<ProjectPage> {
+    const column = options.sort === "name"
+      ? sql`${projects.name} collate "C"`
+      : sql`date_trunc('milliseconds', ${projects[options.sort]})`;
+    const id = sql`${projects.id} collate "C"`;
+    const order = options.order === "asc" ? asc : desc;
+    const pattern = options.search && `%${options.search.replace(/[\\%_]/g, "\\$&")}%`;
+
+    let after;
+    if (options.after) {
+      const bound = options.sort === "name" ? sql`${options.after.value}` : sql`${options.after.value}::timestamp`;
+      after = sql`(${column}, ${id}) ${options.order === "asc" ? sql`>` : sql`<`} (${bound}, ${options.after.id})`;
+    }
+
+    const rows = await this.db.select().from(projects)
+      .where(and(
+        options.deleted === "exclude" ? isNull(projects.deletedAt) : undefined,
+        options.deleted === "only" ? isNotNull(projects.deletedAt) : undefined,
+        options.status ? inArray(projects.status, options.status) : undefined,
+        options.ownerId ? eq(projects.ownerId, options.ownerId) : undefined,
+        options.createdAfter ? gte(projects.createdAt, options.createdAfter) : undefined,
+        options.createdBefore ? lte(projects.createdAt, options.createdBefore) : undefined,
+        pattern ? or(ilike(projects.name, pattern), ilike(projects.description, pattern)) : undefined,
+        after
+      ))
+      .orderBy(order(column), order(id))
+      .limit(options.limit + 1);
+    return toProjectPage(rows, options);
+  }
+
+  async softDeleteProject(id: string): Promise<void> {
+    await this.db.update(projects).set({ deletedAt: new Date() }).where(eq(projects.id, id));
+  }
+
+  async restoreProject(id: string): Promise<void> {
+    await this.db.update(projects).set({ deletedAt: null }).where(eq(projects.id, id));
+  }
+
+  // Logs, files, revisions, runs and run jobs go with it through their cascading foreign keys
+  async deleteProject(id: string): Promise<void> {
+    await this.db.delete(projects).where(eq(projects.id, id));
+  }
+
+  // Agent log methods
+  async getProjectLogs(projectId: string): Promise<AgentLog[]> {
+    return this.db.select().from(agentLogs)
+      .where(eq(agentLogs.projectId, projectId))
+      .orderBy(asc(agentLogs.timestamp));
+  }
+
+  async addAgentLog(insertLog: InsertAgentLog): Promise<AgentLog> {
+    const [log] = await this.db.insert(agentLogs).values(insertLog).returning();
+    return log;
+  }
+
+  // Project file methods
+  async getProjectFiles(projectId: string): Promise<ProjectFile[]> {
+    return this.db.select().from(projectFiles)
+      .where(eq(projectFiles.projectId, projectId))
+      .orderBy(asc(projectFiles.createdAt));
+  }
+
+  // Writing the content a path already has changes nothing and records no revision. Agents of one
+  // run write in parallel, often to the same path, so each write holds the path's lock.
+  async saveProjectFile(insertFile: InsertProjectFile): Promise<ProjectFile> {
+    return this.db.transaction(async (tx) => {
+      await this.lock(tx, `file:${insertFile.projectId}:${insertFile.path}`);
+      const [existing] = await tx.select().from(projectFiles).where(and(
+        eq(projectFiles.projectId, insertFile.projectId),
+        eq(projectFiles.path, insertFile.path)
+      ));
+      if (existing && existing.content === insertFile.content) {
+        return existing;
+      }
+
+      const revision = await this.latestRevision(tx, insertFile.projectId, insertFile.path) + 1;
+      const updatedAt = new Date();
+      const [file] = await tx.insert(projectFiles)
+        .values({ ...insertFile, revision, updatedAt })
+        .onConflictDoUpdate({
+          target: [projectFiles.projectId, projectFiles.path],
+          set: { ...insertFile, revision, updatedAt }
+        })
+        .returning();
+      await tx.insert(fileRevisions).values({
+        projectId: file.projectId,
+        path: file.path,
+        revision,
+        content: file.content,
+        size: file.size,
+        language: file.language,
+        agentName: file.agentName,
+        createdAt: updatedAt
+      });
+      return file;
+    });
+  }
+
+  // An edit made outside a run, so its revision has no agent
+  async updateProjectFile(id: string, content: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const [found] = await tx.select({ projectId: projectFiles.projectId, path: projectFiles.path })
+        .from(projectFiles).where(eq(projectFiles.id, id));
+      if (!found) {
+        return;
+      }
+      await this.lock(tx, `file:${found.projectId}:${found.path}`);
+      const [existing] = await tx.select().from(projectFiles).where(eq(projectFiles.id, id));
+      if (!existing || existing.content === content) {
+        return;
+      }
+
+      const revision = await this.latestRevision(tx, existing.projectId, existing.path) + 1;
+      const updatedAt = new Date();
+      await tx.update(projectFiles)
+        .set({ content, size: content.length, revision, updatedAt })
+        .where(eq(projectFiles.id, id));
+      await tx.insert(fileRevisions).values({
+        projectId: existing.projectId,
+        path: existing.path,
+        revision,
+        content,
+        size: content.length,
+        language: existing.language,
+        agentName: null,
+        createdAt: updatedAt
+      });
+    });
+  }
+
+  // Without agent names every file of the project goes
+  async deleteProjectFiles(projectId: string, agentNames?: string[]): Promise<void> {
+    await this.db.delete(projectFiles).where(and(
+      eq(projectFiles.projectId, projectId),
+      agentNames ? inArray(projectFiles.agentName, agentNames) : undefined
+    ));
+  }
+
+  async getFileRevisions(projectId: string, path: string): Promise<FileRevision[]> {
+    return this.db.select().from(fileRevisions)
+      .where(and(eq(fileRevisions.projectId, projectId), eq(fileRevisions.path, path)))
+      .orderBy(asc(fileRevisions.revision));
+  }
+
+  async getFileRevision(projectId: string, path: string, revision: number): Promise<FileRevision | undefined> {
+    const [entry] = await this.db.select().from(fileRevisions).where(and(
+      eq(fileRevisions.projectId, projectId),
+      eq(fileRevisions.path, path),
+      eq(fileRevisions.revision, revision)
+    ));
+    return entry;
+  }
+
+  // Project run methods
+  async addProjectRun(insertRun: InsertProjectRun): Promise<ProjectRun> {
+    return this.db.transaction(async (tx) => {
+      await this.lock(tx, `runs:${insertRun.projectId}`);
+      const [row] = await tx.select({ latest: max(projectRuns.number) }).from(projectRuns)
+        .where(eq(projectRuns.projectId, insertRun.projectId));
+      const [run] = await tx.insert(projectRuns)
+        .values({ ...insertRun, number: (row?.latest ?? 0) + 1 })
+        .returning();
+      return run;
+    });
+  }
+
+  async getProjectRuns(projectId: string): Promise<ProjectRun[]> {
+    return this.db.select().from(projectRuns)
+      .where(eq(projectRuns.projectId, projectId))
+      .orderBy(asc(projectRuns.number));
+  }
+
+  // Revisions outlive deleted files, so numbering continues where the history left off
+  private async latestRevision(db: Pick<PgStorageDatabase, "select">, projectId: string, path: string): Promise<number> {
+    const [row] = await db.select({ latest: max(fileRevisions.revision) }).from(fileRevisions)
+      .where(and(eq(fileRevisions.projectId, projectId), eq(fileRevisions.path, path)));
+    return row?.latest ?? 0;
+  }
+
+  // Holds a transaction-scoped advisory lock, so transactions numbering the same revisions or runs
+  // take turns instead of failing on the unique indexes. Unrelated keys that hash alike only wait.
+  private async lock(tx: Pick<PgStorageDatabase, "execute">, key: string): Promise<void> {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${key}))`);
+  }
+
+  // LLM cache methods
+  async getCachedResponse(key: string): Promise<LlmCacheEntry | undefined> {
+    const [entry] = await this.db.select().from(llmCache).where(eq(llmCache.key, key));
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt.getTime() <= Date.now()) {
+      await this.db.delete(llmCache).where(eq(llmCache.key, key));
+      return undefined;
+    }
+    const lastHitAt = new Date();
+    await this.db.update(llmCache).set({ lastHitAt }).where(eq(llmCache.key, key));
+    return { ...entry, lastHitAt };
+  }
+
+  async setCachedResponse(insertEntry: InsertLlmCacheEntry): Promise<void> {
+    const now = new Date();
+    const entry = { ...insertEntry, createdAt: now, lastHitAt: now };
+    await this.db.insert(llmCache).values(entry)
+      .onConflictDoUpdate({ target: llmCache.key, set: entry });
+  }
+
+  async pruneCachedResponses(maxEntries: number): Promise<void> {
+    await this.db.delete(llmCache).where(lte(llmCache.expiresAt, new Date()));
+
+    // Keep the most recently used entries
+    const keep = this.db.select({ key: llmCache.key }).from(llmCache)
+      .orderBy(desc(llmCache.lastHitAt))
+      .limit(maxEntries);
+    await this.db.delete(llmCache).where(notInArray(llmCache.key, keep));
+  }
+
+  // Run queue methods, oldest job first
+  async getRunJobs(): Promise<RunJob[]> {
+    return this.db.select().from(runJobs).orderBy(asc(runJobs.createdAt));
+  }
+
+  async addRunJob(insertJob: InsertRunJob): Promise<RunJob> {
+    const [job] = await this.db.insert(runJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async updateRunJob(id: string, changes: Partial<Pick<RunJob, "status" | "only" | "startedAt">>): Promise<void> {
+    await this.db.update(runJobs).set(changes).where(eq(runJobs.id, id));
+  }
+
+  async deleteRunJob(id: string): Promise<void> {
+    await this.db.delete(runJobs).where(eq(runJobs.id, id));
+  }
+
+  // Agent routing methods
+  async getAgentRoutes(): Promise<AgentRoute[]> {
+    return this.db.select().from(agentRoutes);
+  }
+
+  async setAgentRoute(agent: string, routing: AgentRouting): Promise<void> {
+    const updatedAt = new Date();
+    await this.db.insert(agentRoutes).values({ agent, routing, updatedAt })
+      .onConflictDoUpdate({ target: agentRoutes.agent, set: { routing, updatedAt } });
+  }
+}
@@ -0,0 +1,76 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { registerRoutes } from "./routes";
+
+// The whole pipeline over HTTP, offline: every agent answers from the checked-in FakeProvider
+// script, fixtures/todo-app.json, so a change that breaks a stage or the hand-off between stages fails here
+
+let server: Server;
+let baseUrl = "";
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+async function api(method: string, path: string, body?: unknown) {
+  const res = await fetch(baseUrl + path, {
+    method,
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return res.json();
+}
+
+describe("five-agent pipeline", () => {
+  it("takes a project from requirements to a deployable package", async () => {
+    const { project } = await api("POST", "/api/projects", {
+      name: "Todo app",
+      description: "A list of things to do, stored by an Express API and shown in React",
+      // What the setup form sends, with the provider swapped for the script
+      config: {
+        projectName: "Todo app",
+        description: "A list of things to do, stored by an Express API and shown in React",
+        stack: "react",
+        database: "postgresql",
+        features: ["CRUD operations"],
+        llm: { provider: "fake", scriptName: "todo-app" }
+      }
+    });
+    expect((await api("POST", `/api/projects/${project.id}/start`)).success).toBe(true);
+
+    await expect.poll(async () => (await api("GET", `/api/projects/${project.id}`)).project.status, { timeout: 20_000 })
+      .toBe("completed");
+
+    const { project: done } = await api("GET", `/api/projects/${project.id}`);
+    const state = done.state;
+    expect(state.completedAgents.sort()).toEqual(["Backend", "Deployment", "Frontend", "Requirement", "Validator"]);
+    expect(state.errors).toEqual([]);
+    expect(state.agentOutputs.Requirement.specification).toContain("Todo App Technical Specification");
+    expect(state.agentOutputs.Validator).toMatchObject({ criticalIssues: [], isProductionReady: true, qualityScore: 8 });
+    expect(state.agentOutputs.Deployment.isProductionReady).toBe(true);
+
+    const { files } = await api("GET", `/api/projects/${project.id}/files`);
+    const paths = files.map((file: { path: string }) => file.path);
+    expect(paths).toEqual(expect.arrayContaining(["/src/App.tsx", "/src/TodoList.tsx", "/README.md"]));
+    const app = files.find((file: { path: string }) => file.path === "/src/App.tsx");
+    expect(app.content).toContain("<TodoList />");
+    expect(paths.some((path: string) => path.endsWith("server.ts"))).toBe(true);
+
+    const { logs } = await api("GET", `/api/projects/${project.id}/logs`);
+    expect(logs.some((log: { level: string }) => log.level === "error")).toBe(false);
+
+    const { runs } = await api("GET", `/api/projects/${project.id}/runs`);
+    expect(runs).toHaveLength(1);
+    expect(runs[0]).toMatchObject({ number: 1, status: "completed", fileCount: files.length });
+  });
+});
@@ -0,0 +1,48 @@
+import type { Project, ProjectListQuery } from "@shared/schema";
+
+// Where the previous page ended: the sort value of its last project (an ISO date, or the name)
+// and that project's id, which breaks ties between equal values
+export interface ProjectCursor {
+  value: string;
+  id: string;
+}
+
+export interface ProjectListOptions extends Omit<ProjectListQuery, "cursor"> {
+  after?: ProjectCursor;
+}
+
+export interface ProjectPage {
+  projects: Project[];
+  nextCursor: string | null; // null on the last page
+}
+
+// Dates are compared at millisecond precision, the most a cursor keeps
+export function sortValue(project: Project, sort: ProjectListQuery["sort"]): string {
+  return sort === "name" ? project.name : new Date(project[sort]).toISOString();
+}
+
+export function encodeProjectCursor(project: Project, sort: ProjectListQuery["sort"]): string {
+  return Buffer.from(JSON.stringify([sortValue(project, sort), project.id])).toString("base64url");
+}
+
+// undefined when the cursor wasn't issued by encodeProjectCursor
+export function decodeProjectCursor(cursor: string): ProjectCursor | undefined {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (Array.isArray(decoded) && decoded.length === 2 && decoded.every(part => typeof part === "string")) {
+      return { value: decoded[0], id: decoded[1] };
+    }
+  } catch {
+    // Not base64 JSON
+  }
+  return undefined;
+}
+
+// The page's projects plus, when more are left, the cursor after its last one; `rows` holds up to limit + 1
+export function toProjectPage(rows: Project[], options: ProjectListOptions): ProjectPage {
+  const projects = rows.slice(0, options.limit);
+  return {
+    projects,
+    nextCursor: rows.length > options.limit ? encodeProjectCursor(projects[projects.length - 1], options.sort) : null
+  };
+}
@@ -0,0 +1,406 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import WebSocket from "ws";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { MAX_DIFF_LINES } from "./diff";
+import { agentOrchestrator, ProjectConflictError } from "./agents/AgentOrchestrator";
+import { emptyUsage, FakeProvider } from "./llm";
+import { keyVault } from "./keyVault";
+
+let server: Server;
+let baseUrl = "";
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+async function get(path: string) {
+  const res = await fetch(baseUrl + path);
+  return { status: res.status, body: await res.json() };
+}
+
+async function post(path: string, body: unknown = {}, method = "POST") {
+  const res = await fetch(baseUrl + path, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+// A project whose agents answer offline, each call taking `delayMs`
+function slowProject(delayMs: number) {
+  return storage.createProject({
+    name: "Slow",
+    description: "Runs long enough to be interrupted",
+    config: { llm: { provider: "fake", script: { responses: [], delayMs } } }
+  });
+}
+
+async function statusOf(projectId: string) {
+  return (await storage.getProject(projectId))?.status;
+}
+
+async function projectWithFile(...contents: string[]) {
+  const project = await storage.createProject({ name: "Diffs", description: "Revisions to compare", config: {} });
+  for (const content of contents) {
+    await storage.saveProjectFile({ projectId: project.id, path: "/a.ts", content, size: content.length, agentName: "Frontend" });
+  }
+  return project;
+}
+
+describe("GET /api/projects/:id/files/diff", () => {
+  it("compares the latest revision with the one before", async () => {
+    const project = await projectWithFile("a\nb\n", "a\nc\n");
+    const { status, body } = await get(`/api/projects/${project.id}/files/diff?path=/a.ts`);
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ success: true, from: 1, to: 2 });
+    expect(body.diff).toBe("--- a/a.ts@1\n+++ b/a.ts@2\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n");
+  });
+
+  it("compares the first revision with the file not existing", async () => {
+    const project = await projectWithFile("a\n");
+    const { body } = await get(`/api/projects/${project.id}/files/diff?path=/a.ts&to=1`);
+
+    expect(body).toMatchObject({ from: 0, to: 1 });
+    expect(body.diff).toBe("--- /dev/null\n+++ b/a.ts@1\n@@ -0,0 +1,1 @@\n+a\n");
+  });
+
+  it("answers 400, 404 and 413 for what it cannot diff", async () => {
+    const project = await projectWithFile("a\n");
+
+    expect((await get(`/api/projects/missing/files/diff?path=/a.ts`)).status).toBe(404);
+    expect((await get(`/api/projects/${project.id}/files/diff`)).status).toBe(400);
+    expect((await get(`/api/projects/${project.id}/files/diff?path=/b.ts`)).status).toBe(404);
+    expect((await get(`/api/projects/${project.id}/files/diff?path=/a.ts&from=1&to=5`)).status).toBe(404);
+
+    const huge = Array.from({ length: MAX_DIFF_LINES + 1 }, (_, i) => `line ${i}\n`).join("");
+    const large = await projectWithFile(huge);
+    const { status, body } = await get(`/api/projects/${large.id}/files/diff?path=/a.ts`);
+    expect(status).toBe(413);
+    expect(body.success).toBe(false);
+  });
+});
+
+describe("GET /api/projects/:id/runs/diff", () => {
+  it("lists files added, removed and modified between two runs", async () => {
+    const project = await projectWithFile("a\n");
+    const startedAt = new Date();
+    await storage.addProjectRun({ projectId: project.id, status: "completed", startedAt, files: { "/a.ts": 1, "/b.ts": 1 } });
+    await storage.addProjectRun({ projectId: project.id, status: "completed", startedAt, files: { "/a.ts": 2, "/c.ts": 1 } });
+
+    const { status, body } = await get(`/api/projects/${project.id}/runs/diff`);
+    expect(status).toBe(200);
+    expect(body).toEqual({
+      success: true,
+      from: 1,
+      to: 2,
+      added: [{ path: "/c.ts", revision: 1 }],
+      removed: [{ path: "/b.ts", revision: 1 }],
+      modified: [{ path: "/a.ts", fromRevision: 1, toRevision: 2 }]
+    });
+    expect((await get(`/api/projects/${project.id}/runs/diff?from=0&to=1`)).body.added).toHaveLength(2);
+    expect((await get(`/api/projects/${project.id}/runs/diff?from=3`)).status).toBe(404);
+  });
+});
+
+describe("POST /api/projects/:id/start", () => {
+  it("refuses to start a running project and leaves it running", async () => {
+    const project = await slowProject(5_000);
+    expect((await post(`/api/projects/${project.id}/start`)).status).toBe(200);
+
+    const again = await post(`/api/projects/${project.id}/start`);
+    expect(again.status).toBe(409);
+    expect(again.body.success).toBe(false);
+    expect(await statusOf(project.id)).toBe("running");
+
+    await agentOrchestrator.releaseProject(project.id);
+    expect(await statusOf(project.id)).toBe("stopped");
+  });
+});
+
+describe("POST /api/projects/:id/approve", () => {
+  it("answers a second click with 409 and keeps the project healthy", async () => {
+    const project = await slowProject(5_000);
+    await storage.updateProjectState(project.id, {
+      currentAgent: null,
+      completedAgents: ["Requirement"],
+      agentProgress: { Requirement: 100 },
+      agentOutputs: { Requirement: { summary: "Todo app" } },
+      errors: [],
+      awaitingApproval: ["Requirement"]
+    });
+    await storage.updateProjectStatus(project.id, "awaiting-approval");
+
+    const clicks = await Promise.all([
+      post(`/api/projects/${project.id}/approve`, { agent: "Requirement" }),
+      post(`/api/projects/${project.id}/approve`, { agent: "Requirement" })
+    ]);
+    expect(clicks.map(click => click.status).sort()).toEqual([200, 409]);
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const reject = await post(`/api/projects/${project.id}/reject`, { agent: "Requirement", feedback: "Shorter" });
+    expect(reject.status).toBe(409);
+    expect(await statusOf(project.id)).toBe("running");
+
+    await agentOrchestrator.releaseProject(project.id);
+  });
+});
+
+describe("POST /api/projects/:id/resume", () => {
+  it("resumes a paused run that is still finishing its agents", async () => {
+    const project = await slowProject(300);
+    await post(`/api/projects/${project.id}/start`);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect((await post(`/api/projects/${project.id}/pause`)).status).toBe(200);
+    expect((await post(`/api/projects/${project.id}/resume`)).status).toBe(200);
+    expect((await post(`/api/projects/${project.id}/resume`)).status).toBe(409);
+
+    // The paused run is recorded first, then the resumed one takes its slot
+    await expect.poll(async () => (await storage.getProjectRuns(project.id)).length, { timeout: 5_000 }).toBe(1);
+    await expect.poll(() => statusOf(project.id)).toBe("running");
+    expect((await post(`/api/projects/${project.id}/start`)).status).toBe(409);
+
+    await agentOrchestrator.releaseProject(project.id);
+    expect(await statusOf(project.id)).toBe("stopped");
+  });
+});
+
+describe("POST /api/projects/:id/restart", () => {
+  it("restarts a running project once its run is recorded, refusing a second restart meanwhile", async () => {
+    const project = await slowProject(300);
+    await post(`/api/projects/${project.id}/start`);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    // The restart claims the project before anything is awaited; a second one meanwhile is refused
+    const restart = agentOrchestrator.restartProject(project.id);
+    expect(agentOrchestrator.busyReason(project.id, "restart")).toBeDefined();
+    await expect(agentOrchestrator.restartProject(project.id)).rejects.toThrow(ProjectConflictError);
+
+    // The halted run is recorded before the restarted one takes the slot
+    await expect.poll(async () => (await storage.getProjectRuns(project.id)).length, { timeout: 5_000 }).toBe(1);
+    expect((await storage.getProjectRuns(project.id))[0].status).toBe("stopped");
+    await expect.poll(() => statusOf(project.id)).toBe("running");
+    expect((await post(`/api/projects/${project.id}/start`)).status).toBe(409);
+
+    await agentOrchestrator.releaseProject(project.id);
+    await restart;
+    expect(await statusOf(project.id)).toBe("stopped");
+  });
+});
+
+describe("POST /api/projects/:id/agents/:name/rerun", () => {
+  it("refuses to rerun an agent of a project waiting in the queue", async () => {
+    // One owner may hold two slots, so the third project waits
+    const projects = [await slowProject(5_000), await slowProject(5_000), await slowProject(5_000)];
+    for (const project of projects) {
+      expect((await post(`/api/projects/${project.id}/start`)).status).toBe(200);
+    }
+    const queued = projects[2];
+    await expect.poll(() => statusOf(queued.id)).toBe("queued");
+
+    const rerun = await post(`/api/projects/${queued.id}/agents/Requirement/rerun`);
+    expect(rerun.status).toBe(409);
+    expect(rerun.body.success).toBe(false);
+    expect(await statusOf(queued.id)).toBe("queued");
+
+    for (const project of projects) {
+      await agentOrchestrator.releaseProject(project.id);
+    }
+  });
+});
+
+describe("PATCH /api/projects/:id/budget", () => {
+  it("lets a project paused on its budget continue once the budget is raised", async () => {
+    const project = await storage.createProject({
+      name: "Frugal",
+      description: "Has spent its budget",
+      config: { budget: { maxTokens: 100 }, llm: { provider: "fake", script: { responses: [], delayMs: 5_000 } } }
+    });
+    await storage.updateProjectState(project.id, {
+      currentAgent: null,
+      completedAgents: [],
+      agentProgress: {},
+      agentOutputs: {},
+      errors: [],
+      usage: { Requirement: { ...emptyUsage(), totalTokens: 100 } }
+    });
+    await storage.updateProjectStatus(project.id, "paused");
+
+    // Resuming with the budget spent pauses again before any agent starts
+    expect((await post(`/api/projects/${project.id}/resume`)).status).toBe(200);
+    await expect.poll(async () => (await storage.getProjectRuns(project.id)).length).toBe(1);
+    expect(await statusOf(project.id)).toBe("paused");
+    const paused = (await get(`/api/projects/${project.id}`)).body.project;
+    expect(paused.state.pausedReason).toContain("Token budget exhausted");
+
+    expect((await post(`/api/projects/${project.id}/budget`, { maxTokens: 0 }, "PATCH")).status).toBe(400);
+    const raised = await post(`/api/projects/${project.id}/budget`, { maxTokens: 10_000 }, "PATCH");
+    expect(raised.body).toEqual({ success: true, budget: { maxTokens: 10_000 } });
+
+    expect((await post(`/api/projects/${project.id}/resume`)).status).toBe(200);
+    await expect.poll(() => statusOf(project.id)).toBe("running");
+    const resumed = (await get(`/api/projects/${project.id}`)).body.project;
+    expect(resumed.state.pausedReason).toBeUndefined();
+
+    await agentOrchestrator.releaseProject(project.id);
+  });
+});
+
+describe("POST /api/projects", () => {
+  it("keeps server-only LLM settings out of the stored config", async () => {
+    const { status, body } = await post("/api/projects", {
+      name: "Sneaky",
+      description: "Asks the server to write wherever it likes",
+      config: { llm: { provider: "fake", apiKey: "secret", cassette: { mode: "record", path: "/tmp/elsewhere.json" } } }
+    });
+
+    expect(status).toBe(200);
+    expect(body.project.config.llm).toEqual({ provider: "fake" });
+    expect((await storage.getProject(body.project.id))?.config).toEqual({ llm: { provider: "fake" } });
+  });
+
+  it("refuses a fake LLM script given as a path", async () => {
+    const { status, body } = await post("/api/projects", {
+      name: "Nosy",
+      description: "Asks the server to read a file of its choosing",
+      config: { llm: { provider: "fake", scriptPath: "/etc/passwd" } }
+    });
+
+    expect(status).toBe(400);
+    expect(body.success).toBe(false);
+  });
+});
+
+describe("PUT /api/agents/:name/routing", () => {
+  it("stores the routing, so it outlives the process, and serves it with the agents", async () => {
+    const routing = { text: { model: "gemini-2.5-pro", temperature: 0.3 } };
+    const { status, body } = await post("/api/agents/Frontend/routing", routing, "PUT");
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ success: true, routing });
+    expect(await storage.getAgentRoutes()).toEqual([expect.objectContaining({ agent: "Frontend", routing })]);
+
+    const agents = await get("/api/agents");
+    expect(agents.body.agents.find((agent: any) => agent.name === "Frontend").routing).toEqual(routing);
+    expect(agents.body.agents.find((agent: any) => agent.name === "Backend").routing).toEqual({});
+  });
+
+  it("refuses unknown agents and invalid routes", async () => {
+    expect((await post("/api/agents/Nobody/routing", { text: { model: "x" } }, "PUT")).status).toBe(400);
+    expect((await post("/api/agents/Frontend/routing", { text: { temperature: 5 } }, "PUT")).status).toBe(400);
+    expect((await storage.getAgentRoutes()).map(route => route.agent)).not.toContain("Nobody");
+  });
+});
+
+describe("API keys", () => {
+  const apiKey = "sk-test-0123456789abcdef";
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("never reach a response, the stored project, its logs or the console", async () => {
+    const printed: string[] = [];
+    for (const method of ["log", "info", "warn", "error", "debug"] as const) {
+      vi.spyOn(console, method).mockImplementation((...args: unknown[]) => {
+        printed.push(args.map(arg => arg instanceof Error ? arg.stack : JSON.stringify(arg)).join(" "));
+      });
+    }
+
+    const created = await post("/api/projects", {
+      name: "Keyed",
+      description: "A list of things to do",
+      apiKey,
+      config: {
+        projectName: "Keyed",
+        description: "A list of things to do",
+        stack: "react",
+        database: "postgresql",
+        features: ["CRUD operations"],
+        llm: { provider: "fake", scriptName: "todo-app", apiKey }
+      }
+    });
+    const projectId = created.body.project.id;
+    expect(keyVault.get(projectId)).toBe(apiKey);
+
+    const started = await post(`/api/projects/${projectId}/start`, { apiKey });
+    expect(started.status).toBe(200);
+    await expect.poll(() => statusOf(projectId), { timeout: 10_000 }).toBe("completed");
+    expect(keyVault.has(projectId)).toBe(false);
+
+    const responses = [created.body, started.body];
+    for (const path of ["", "/logs", "/runs", "/usage", "/files", "/pipeline", "/approvals"]) {
+      responses.push((await get(`/api/projects/${projectId}${path}`)).body);
+    }
+    responses.push((await get("/api/projects")).body);
+    const stored = [await storage.getProject(projectId), await storage.getProjectLogs(projectId)];
+
+    expect(JSON.stringify(responses)).not.toContain(apiKey);
+    expect(JSON.stringify(stored)).not.toContain(apiKey);
+    expect(printed.join("\n")).not.toContain(apiKey);
+  });
+});
+
+describe("WebSocket /ws", () => {
+  it("streams each agent's output in order and ends the stream with the run", async () => {
+    const created = await post("/api/projects", {
+      name: "Streamed",
+      description: "A list of things to do",
+      config: {
+        projectName: "Streamed",
+        description: "A list of things to do",
+        stack: "react",
+        database: "postgresql",
+        features: ["CRUD operations"],
+        llm: { provider: "fake", scriptName: "todo-app" }
+      }
+    });
+    const projectId = created.body.project.id;
+
+    const socket = new WebSocket(`${baseUrl.replace("http", "ws")}/ws?projectId=${projectId}`);
+    const messages: Array<{ type: string; data: any }> = [];
+    const runEnded = new Promise<void>(resolve => {
+      socket.on("message", raw => {
+        const message = JSON.parse(raw.toString());
+        messages.push(message);
+        if (message.type === "run-recorded") {
+          resolve();
+        }
+      });
+    });
+    await new Promise(resolve => socket.once("open", resolve));
+
+    await post(`/api/projects/${projectId}/start`);
+    await runEnded;
+    socket.close();
+
+    const types = messages.map(message => message.type);
+    const script = FakeProvider.loadScript(FakeProvider.fixturePath("todo-app"));
+    for (const agent of ["Frontend", "Backend"]) {
+      const streamed = messages.filter(message => message.type === "agent-stream" && message.data.agent === agent);
+      expect(streamed.length).toBeGreaterThan(1);
+      expect(streamed.map(message => message.data.chunk).join(""))
+        .toBe(script.responses.find(response => response.agent === agent)!.content);
+
+      const started = messages.findIndex(message => message.type === "agent-started" && message.data.agent === agent);
+      const completed = messages.findIndex(message => message.type === "agent-completed" && message.data.agent === agent);
+      expect(messages.indexOf(streamed[0])).toBeGreaterThan(started);
+      expect(messages.indexOf(streamed[streamed.length - 1])).toBeLessThan(completed);
+    }
+    expect(types.slice(types.indexOf("project-completed"))).toEqual(["project-completed", "run-recorded"]);
+  });
+});
@@ -1,9 +1,13 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer } from "ws";
 import { storage } from "./storage";
-import { agentOrchestrator } from "./agents/AgentOrchestrator";
-import { insertProjectSchema, insertAgentLogSchema } from "@shared/schema";
+import { agentOrchestrator, pipelinePresets } from "./agents/AgentOrchestrator";
+import { keyVault, withoutSecrets, requiresApiKey } from "./keyVault";
+import { totalUsage } from "./llm";
+import { diffLines, unifiedDiff, diffFileSets, DiffTooLargeError } from "./diff";
+import { decodeProjectCursor } from "./projectList";
+import { insertProjectSchema, insertAgentLogSchema, projectBudgetSchema, agentRoutingSchema, pipelineDefinitionSchema, projectListQuerySchema, type AgentState, type Project } from "@shared/schema";
 import { z } from "zod";
 
 // WebSocket connections for real-time updates
@@ -15,8 +19,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create new project
   app.post("/api/projects", async (req, res) => {
     try {
-      const projectData = insertProjectSchema.parse(req.body);
-      const project = await storage.createProject(projectData);
+      // The API key travels beside the project, never inside its persisted config
+      const { apiKey, ...body } = req.body;
+      const projectData = insertProjectSchema.parse(body);
+      const invalidPipeline = pipelineError(projectData.config);
+      if (invalidPipeline) {
+        return res.status(400).json({ success: false, error: invalidPipeline });
+      }
+      const project = await storage.createProject({
+        ...projectData,
+        config: withoutSecrets(projectData.config),
+        ownerId: requestOwner(req)
+      });
+
+      if (typeof apiKey === "string" && apiKey) {
+        keyVault.set(project.id, apiKey);
+      }
       
       res.json({ success: true, project });
     } catch (error: any) {
@@ -28,6 +46,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List projects, newest first unless sorted otherwise; `ownerId=me` stands for the caller.
+  // Pass the returned `nextCursor` as `cursor` to get the next page.
+  app.get("/api/projects", async (req, res) => {
+    try {
+      const parsed = projectListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: `Invalid query: ${parsed.error.errors.map(issue => `${issue.path.join(".")} ${issue.message}`).join(", ")}` });
+      }
+
+      const { cursor, ...query } = parsed.data;
+      const after = cursor ? decodeProjectCursor(cursor) : undefined;
+      if (cursor && !after) {
+        return res.status(400).json({ success: false, error: "Invalid cursor" });
+      }
+
+      const page = await storage.listProjects({
+        ...query,
+        ownerId: query.ownerId === "me" ? requestOwner(req) : query.ownerId,
+        after
+      });
+      // Agent state carries every output of the run; the project's own route serves it
+      res.json({
+        success: true,
+        projects: page.projects.map(({ state, ...project }) => project),
+        nextCursor: page.nextCursor
+      });
+    } catch (error: any) {
+      console.error("List projects error:", error);
+      res.status(500).json({ success: false, error: error.message || "Failed to list projects" });
+    }
+  });
+
   // Start project execution
   app.post("/api/projects/:id/start", async (req, res) => {
     try {
@@ -37,6 +87,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!project) {
         return res.status(404).json({ success: false, error: "Project not found" });
       }
+      if (project.deletedAt) {
+        return res.status(409).json({ success: false, error: "Project is in the trash; restore it first" });
+      }
+      const busy = agentOrchestrator.busyReason(projectId, "start");
+      if (busy) {
+        return res.status(409).json({ success: false, error: busy });
+      }
+
+      // Plugins registered since the project was created may have changed what its pipeline resolves to
+      const invalidPipeline = pipelineError(project.config);
+      if (invalidPipeline) {
+        return res.status(400).json({ success: false, error: invalidPipeline });
+      }
+
+      const keyError = acceptApiKey(projectId, project.config, req.body?.apiKey);
+      if (keyError) {
+        return res.status(400).json({ success: false, error: keyError });
+      }
 
       // Start project execution asynchronously
       agentOrchestrator.startProject(projectId).catch(error => {
@@ -63,7 +131,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ success: false, error: "Project not found" });
       }
 
-      res.json({ success: true, project });
+      const position = agentOrchestrator.getQueue().queued.find(job => job.projectId === projectId)?.position;
+      res.json({ success: true, project, queuePosition: position ?? null });
     } catch (error: any) {
       console.error("Get project error:", error);
       res.status(500).json({ 
@@ -73,6 +142,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Moves the project to the trash, stopping its run; `permanent=true` deletes it with its logs,
+  // files, revisions and runs instead
+  app.delete("/api/projects/:id", async (req, res) => {
+    try {
+      const projectId = req.params.id;
+      const permanent = req.query.permanent === "true";
+      const project = await storage.getProject(projectId);
+
+      if (!project) {
+        return res.status(404).json({ success: false, error: "Project not found" });
+      }
+
+      await agentOrchestrator.releaseProject(projectId);
+      if (permanent) {
+        await storage.deleteProject(projectId);
+        keyVault.delete(projectId);
+      } else {
+        await storage.softDeleteProject(projectId);
+      }
+      res.json({ success: true, message: permanent ? "Project deleted" : "Project moved to the trash" });
+    } catch (error: any) {
+      console.error("Delete project error:", error);
+      res.status(500).json({ success: false, error: error.message || "Failed to delete project" });
+    }
+  });
+
+  // Takes the project out of the trash; it keeps the status it was stopped with
+  app.post("/api/projects/:id/restore", async (req, res) => {
+    try {
+      const projectId = req.params.id;
+      const project = await storage.getProject(projectId);
+
+      if (!project) {
+        return res.status(404).json({ success: false, error: "Project not found" });
+      }
+      if (!project.deletedAt) {
+        return res.status(409).json({ success: false, error: "Project is not in the trash" });
+      }
+
+      await storage.restoreProject(projectId);
+      res.json({ success: true, message: "Project restored" });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
   // Pause/resume project
   app.post("/api/projects/:id/pause", async (req, res) => {
     try {
@@ -87,6 +202,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/projects/:id/resume", async (req, res) => {
     try {
       const projectId = req.params.id;
+      const project = await storage.getProject(projectId);
+
+      if (!project) {
+        return res.status(404).json({ success: false, error: "Project not found" });
+      }
+      if (project.deletedAt) {
+        return res.status(409).json({ success: false, error: "Project is in the trash; restore it first" });
+      }
+      const busy = agentOrchestrator.busyReason(projectId, "resume");
+      if (busy) {
+        return res.status(409).json({ success: false, error: busy });
+      }
+
+      const keyError = acceptApiKey(projectId, project.config, req.body?.apiKey);
+      if (keyError) {
+        return res.status(400).json({ success: false, error: keyError });
+      }
+
       agentOrchestrator.resumeProject(projectId).catch(error => {
         console.error("Resume project error:", error);
       });
@@ -96,6 +229,219 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stop a run; completed agents and their files are kept
+  app.post("/api/projects/:id/stop", async (req, res) => {
+    try {
+      const projectId = req.params.id;
+      const project = await storage.getProject(projectId);
+
+      if (!project) {
+        return res.status(404).json({ success: false, error: "Project not found" });
+      }
+
+      await agentOrchestrator.stopProject(projectId);
+      res.json({ success: true, message: "Project stopped" });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Restart from scratch, or from `fromAgent` keeping everything upstream of it
+  app.post("/api/projects/:id/restart", async (req, res) => {
+    try {
+      const projectId = req.params.id;
+      const fromAgent: string | undefined = req.body?.fromAgent || undefined;
+      const project = await storage.getProject(projectId);
+
+      if (!project) {
+        return res.status(404).json({ success: false, error: "Project not found" });
+      }
+      if (project.deletedAt) {
+        return res.status(409).json({ success: false, error: "Project is in the trash; restore it first" });
+      }
+
+      const invalidPipeline = pipelineError(project.config);
+      if (invalidPipeline) {
+        return res.status(400).json({ success: false, error: invalidPipeline });
+      }
+
+      const agents = agentOrchestrator.getPipeline(project.config);
+      if (fromAgent && !agents.some(config => config.name === fromAgent)) {
+        return res.status(400).json({ success: false, error: `Unknown agent: ${fromAgent}` });
+      }
+
+      // Nothing is awaited from here until the restart claims the project, so the check still holds then
+      const busy = agentOrchestrator.busyReason(projectId, "restart");
+      if (busy) {
+        return res.status(409).json({ success: false, error: busy });
+      }
+
+      const keyError = acceptApiKey(projectId, project.config, req.body?.apiKey);
+      if (keyError) {
+        return res.status(400).json({ success: false, error: keyError });
+      }
+
+      agentOrchestrator.restartProject(projectId, fromAgent).catch(error => {
+        console.error("Restart project error:", error);
+      });
+      res.json({ success: true, message: fromAgent ? `Project restarting from ${fromAgent}` : "Project restarting" });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Rerun one agent and everything downstream of it, keeping the rest of the project
+  app.post("/api/projects/:id/agents/:name/rerun", async (req, res) => {
+    try {
+      const projectId = req.params.id;
+      const agentName = req.params.name;
+      const project = await storage.getProject(projectId);
+
+      if (!project) {
+        return res.status(404).json({ success: false, error: "Project not found" });
+      }
+
+      if (!agentOrchestrator.getAgentConfigs().some(config => config.name === agentName)) {
+        return res.status(404).json({ success: false, error: `Unknown agent: ${agentName}` });
+      }
+
+      // Nothing is awaited from here until the rerun claims the project, so the check still holds then
+      const busy = agentOrchestrator.busyReason(projectId, "rerun");
+      if (busy) {
+        return res.status(409).json({ success: false, error: busy });
+      }
+
+      let invalidated: string[];
+      try {
+        invalidated = agentOrchestrator.planRerun(project, agentName);
+      } catch (error: any) {
+        return res.status(409).json({ success: false, error: error.message });
+      }
+
+      const keyError = acceptApiKey(projectId, project.config, req.body?.apiKey);
+      if (keyError) {
+        return res.status(400).json({ success: false, error: keyError });
+      }
+
+      agentOrchestrator.rerunAgent(projectId, agentName).catch(error => {
+        console.error("Rerun agent error:", error);
+      });
+      res.json({ success: true, message: `Rerunning ${agentName}`, invalidated });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Outputs waiting for review before their dependents may run
+  app.get("/api/projects/:id/approvals", async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+
+      if (!project) {
+        return res.status(404).json({ success: false, error: "Project not found" });
+      }
+
+      res.json({ success: true, pending: agentOrchestrator.getPendingApprovals(project) });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Approve a gated agent's output (the first one waiting unless `agent` is given)
+  app.post("/api/projects/:id/approve", async (req, res) => {
+    try {
+      const projectId = req.params.id;
+      const project = await storage.getProject(projectId);
+
+      if (!project) {
+        return res.status(404).json({ success: false, error: "Project not found" });
+      }
+
+      const agentName = pendingApprovalFor(project, req.body?.agent);
+      if (!agentName) {
+        return res.status(409).json({ success: false, error: "Nothing is awaiting approval for that agent" });
+      }
+      const busy = agentOrchestrator.busyReason(projectId, "review");
+      if (busy) {
+        return res.status(409).json({ success: false, error: busy });
+      }
+
+      const keyError = acceptApiKey(projectId, project.config, req.body?.apiKey);
+      if (keyError) {
+        return res.status(400).json({ success: false, error: keyError });
+      }
+
+      agentOrchestrator.approveAgent(projectId, agentName).catch(error => {
+        console.error("Approve error:", error);
+      });
+      res.json({ success: true, message: `${agentName} approved` });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Reject a gated agent's output with feedback for a rerun, edited output, or both
+  app.post("/api/projects/:id/reject", async (req, res) => {
+    try {
+      const projectId = req.params.id;
+      const { feedback, output } = req.body || {};
+      const project = await storage.getProject(projectId);
+
+      if (!project) {
+        return res.status(404).json({ success: false, error: "Project not found" });
+      }
+
+      const agentName = pendingApprovalFor(project, req.body?.agent);
+      if (!agentName) {
+        return res.status(409).json({ success: false, error: "Nothing is awaiting approval for that agent" });
+      }
+      const busy = agentOrchestrator.busyReason(projectId, "review");
+      if (busy) {
+        return res.status(409).json({ success: false, error: busy });
+      }
+
+      if (!(typeof feedback === "string" && feedback.trim()) && output === undefined) {
+        return res.status(400).json({ success: false, error: "Provide feedback, edited output, or both" });
+      }
+
+      const keyError = acceptApiKey(projectId, project.config, req.body?.apiKey);
+      if (keyError) {
+        return res.status(400).json({ success: false, error: keyError });
+      }
+
+      agentOrchestrator.rejectAgent(projectId, agentName, { feedback: feedback?.trim() || undefined, output }).catch(error => {
+        console.error("Reject error:", error);
+      });
+      res.json({ success: true, message: feedback ? `${agentName} will rerun with your feedback` : `${agentName} output updated` });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Raise (or lower) the token/cost budget; a budget-paused project can then be resumed
+  app.patch("/api/projects/:id/budget", async (req, res) => {
+    try {
+      const projectId = req.params.id;
+      const project = await storage.getProject(projectId);
+
+      if (!project) {
+        return res.status(404).json({ success: false, error: "Project not found" });
+      }
+
+      const budget = projectBudgetSchema.parse(req.body);
+      const config = { ...(project.config as Record<string, any>), budget };
+      await storage.updateProjectConfig(projectId, config);
+
+      res.json({ success: true, budget });
+    } catch (error: any) {
+      console.error("Update budget error:", error);
+      res.status(400).json({ 
+        success: false, 
+        error: error.message || "Failed to update budget" 
+      });
+    }
+  });
+
   // Get project logs
   app.get("/api/projects/:id/logs", async (req, res) => {
     try {
@@ -111,6 +457,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get LLM token usage and cost, per agent and in total
+  app.get("/api/projects/:id/usage", async (req, res) => {
+    try {
+      const projectId = req.params.id;
+      const project = await storage.getProject(projectId);
+
+      if (!project) {
+        return res.status(404).json({ success: false, error: "Project not found" });
+      }
+
+      const agents = (project.state as AgentState | null)?.usage || {};
+      res.json({ success: true, usage: { agents, total: totalUsage(agents) } });
+    } catch (error: any) {
+      console.error("Get usage error:", error);
+      res.status(500).json({ 
+        success: false, 
+        error: error.message || "Failed to get usage" 
+      });
+    }
+  });
+
   // Get project files
   app.get("/api/projects/:id/files", async (req, res) => {
     try {
@@ -126,6 +493,154 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Revision history of one file; paths contain slashes, so the path travels as `?path=`
+  app.get("/api/projects/:id/files/revisions", async (req, res) => {
+    try {
+      const projectId = req.params.id;
+      const filePath = req.query.path;
+      const project = await storage.getProject(projectId);
+
+      if (!project) {
+        return res.status(404).json({ success: false, error: "Project not found" });
+      }
+      if (typeof filePath !== "string" || !filePath) {
+        return res.status(400).json({ success: false, error: "A file path is required" });
+      }
+
+      const revisions = await storage.getFileRevisions(projectId, filePath);
+      res.json({
+        success: true,
+        path: filePath,
+        revisions: revisions.map(({ content, ...revision }) => revision)
+      });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // One revision of a file, content included
+  app.get("/api/projects/:id/files/revisions/:revision", async (req, res) => {
+    try {
+      const projectId = req.params.id;
+      const filePath = req.query.path;
+      const revisionNumber = parseInt(req.params.revision, 10);
+      const project = await storage.getProject(projectId);
+
+      if (!project) {
+        return res.status(404).json({ success: false, error: "Project not found" });
+      }
+      if (typeof filePath !== "string" || !filePath || !Number.isInteger(revisionNumber)) {
+        return res.status(400).json({ success: false, error: "A file path and revision number are required" });
+      }
+
+      const revision = await storage.getFileRevision(projectId, filePath, revisionNumber);
+      if (!revision) {
+        return res.status(404).json({ success: false, error: `Revision ${revisionNumber} of ${filePath} not found` });
+      }
+      res.json({ success: true, revision });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Unified diff of one file between two revisions; `to` defaults to the latest and `from` to the one
+  // before it. Revision 0 stands for the file not existing yet.
+  app.get("/api/projects/:id/files/diff", async (req, res) => {
+    try {
+      const projectId = req.params.id;
+      const filePath = req.query.path;
+      const project = await storage.getProject(projectId);
+
+      if (!project) {
+        return res.status(404).json({ success: false, error: "Project not found" });
+      }
+      if (typeof filePath !== "string" || !filePath) {
+        return res.status(400).json({ success: false, error: "A file path is required" });
+      }
+
+      const revisions = await storage.getFileRevisions(projectId, filePath);
+      if (revisions.length === 0) {
+        return res.status(404).json({ success: false, error: `No revisions of ${filePath}` });
+      }
+      const to = queryInt(req.query.to) ?? revisions[revisions.length - 1].revision;
+      const from = queryInt(req.query.from) ?? Math.max(0, to - 1);
+      const contentOf = (revision: number) =>
+        revision === 0 ? "" : revisions.find(entry => entry.revision === revision)?.content;
+
+      const oldContent = contentOf(from);
+      const newContent = contentOf(to);
+      if (oldContent === undefined || newContent === undefined) {
+        return res.status(404).json({ success: false, error: `Revision ${oldContent === undefined ? from : to} of ${filePath} not found` });
+      }
+
+      const lines = diffLines(oldContent, newContent);
+      res.json({
+        success: true,
+        path: filePath,
+        from,
+        to,
+        diff: unifiedDiff(lines, from === 0 ? "/dev/null" : `a${filePath}@${from}`, `b${filePath}@${to}`),
+        lines
+      });
+    } catch (error: any) {
+      if (error instanceof DiffTooLargeError) {
+        return res.status(413).json({ success: false, error: error.message });
+      }
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Every pipeline execution of the project, oldest first
+  app.get("/api/projects/:id/runs", async (req, res) => {
+    try {
+      const projectId = req.params.id;
+      const project = await storage.getProject(projectId);
+
+      if (!project) {
+        return res.status(404).json({ success: false, error: "Project not found" });
+      }
+
+      const runs = await storage.getProjectRuns(projectId);
+      res.json({
+        success: true,
+        runs: runs.map(({ files, ...run }) => ({ ...run, fileCount: Object.keys(files as object).length }))
+      });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Files added, removed and modified between two runs; `to` defaults to the latest run and `from`
+  // to the one before it. Run 0 stands for the empty project before the first run.
+  app.get("/api/projects/:id/runs/diff", async (req, res) => {
+    try {
+      const projectId = req.params.id;
+      const project = await storage.getProject(projectId);
+
+      if (!project) {
+        return res.status(404).json({ success: false, error: "Project not found" });
+      }
+
+      const runs = await storage.getProjectRuns(projectId);
+      if (runs.length === 0) {
+        return res.status(404).json({ success: false, error: "The project has not run yet" });
+      }
+      const to = queryInt(req.query.to) ?? runs[runs.length - 1].number;
+      const from = queryInt(req.query.from) ?? Math.max(0, to - 1);
+      const filesOf = (number: number) =>
+        number === 0 ? {} : runs.find(run => run.number === number)?.files as Record<string, number> | undefined;
+
+      const fromFiles = filesOf(from);
+      const toFiles = filesOf(to);
+      if (!fromFiles || !toFiles) {
+        return res.status(404).json({ success: false, error: `Run ${fromFiles ? to : from} not found` });
+      }
+      res.json({ success: true, from, to, ...diffFileSets(fromFiles, toFiles) });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
   // Download project as ZIP (placeholder - would need archiving library)
   app.get("/api/projects/:id/download", async (req, res) => {
     try {
@@ -160,16 +675,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The agents a project runs, in pipeline order
+  app.get("/api/projects/:id/pipeline", async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+
+      if (!project) {
+        return res.status(404).json({ success: false, error: "Project not found" });
+      }
+
+      const config = project.config as any;
+      res.json({
+        success: true,
+        pipeline: config?.pipeline ?? null,
+        agents: agentOrchestrator.getPipeline(config)
+      });
+    } catch (error: any) {
+      res.status(400).json({ success: false, error: error.message });
+    }
+  });
+
+  // Pipeline presets a project can select under `config.pipeline`, resolved against the registered agents
+  app.get("/api/pipelines", (req, res) => {
+    try {
+      res.json({
+        success: true,
+        pipelines: pipelinePresets.map(preset => ({
+          name: preset.name,
+          description: preset.description,
+          agents: agentOrchestrator.getPipeline({ pipeline: preset.name }).map(config => config.name)
+        }))
+      });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Runs holding a slot and the line waiting for one
+  app.get("/api/queue", (req, res) => {
+    try {
+      res.json({ success: true, queue: agentOrchestrator.getQueue() });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
   // Get agent configurations
-  app.get("/api/agents", (req, res) => {
+  app.get("/api/agents", async (req, res) => {
     try {
       const configs = agentOrchestrator.getAgentConfigs();
-      res.json({ success: true, agents: configs });
+      const routing = await agentOrchestrator.getRouting();
+      res.json({
+        success: true,
+        agents: configs.map(config => ({ ...config, routing: routing[config.name] || {} })),
+        defaultRouting: routing.default || {}
+      });
     } catch (error: any) {
       res.status(500).json({ success: false, error: error.message });
     }
   });
 
+  // Update the server-wide model routing for one agent (or "default")
+  app.put("/api/agents/:name/routing", async (req, res) => {
+    try {
+      const routing = agentRoutingSchema.parse(req.body);
+      await agentOrchestrator.setAgentRouting(req.params.name, routing);
+      res.json({ success: true, routing });
+    } catch (error: any) {
+      res.status(400).json({ success: false, error: error.message });
+    }
+  });
+
   // Health check
   app.get("/api/health", (req, res) => {
     res.json({ 
@@ -182,7 +758,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
   // Set up WebSocket server for real-time updates
-  const wss = new WebSocketServer({ server: httpServer });
+  // Scoped to /ws so it doesn't intercept Vite's HMR socket in development
+  const wss = new WebSocketServer({ server: httpServer, path: "/ws" });
 
   wss.on("connection", (ws, req) => {
     const url = new URL(req.url || "", `http://${req.headers.host}`);
@@ -223,6 +800,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  agentOrchestrator.on("agent-stream", (data) => {
+    const ws = wsClients.get(data.projectId);
+    if (ws && ws.readyState === 1) {
+      ws.send(JSON.stringify({ type: "agent-stream", data }));
+    }
+  });
+
   agentOrchestrator.on("agent-completed", (data) => {
     const ws = wsClients.get(data.projectId);
     if (ws && ws.readyState === 1) {
@@ -230,6 +814,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  agentOrchestrator.on("agent-cancelled", (data) => {
+    const ws = wsClients.get(data.projectId);
+    if (ws && ws.readyState === 1) {
+      ws.send(JSON.stringify({ type: "agent-cancelled", data }));
+    }
+  });
+
+  agentOrchestrator.on("project-queued", (data) => {
+    const ws = wsClients.get(data.projectId);
+    if (ws && ws.readyState === 1) {
+      ws.send(JSON.stringify({ type: "project-queued", data }));
+    }
+  });
+
+  agentOrchestrator.on("project-dequeued", (data) => {
+    const ws = wsClients.get(data.projectId);
+    if (ws && ws.readyState === 1) {
+      ws.send(JSON.stringify({ type: "project-dequeued", data }));
+    }
+  });
+
+  agentOrchestrator.on("project-stopped", (data) => {
+    const ws = wsClients.get(data.projectId);
+    if (ws && ws.readyState === 1) {
+      ws.send(JSON.stringify({ type: "project-stopped", data }));
+    }
+  });
+
+  agentOrchestrator.on("project-restarted", (data) => {
+    const ws = wsClients.get(data.projectId);
+    if (ws && ws.readyState === 1) {
+      ws.send(JSON.stringify({ type: "project-restarted", data }));
+    }
+  });
+
+  agentOrchestrator.on("project-started", (data) => {
+    const ws = wsClients.get(data.projectId);
+    if (ws && ws.readyState === 1) {
+      ws.send(JSON.stringify({ type: "project-started", data }));
+    }
+  });
+
+  agentOrchestrator.on("project-paused", (data) => {
+    const ws = wsClients.get(data.projectId);
+    if (ws && ws.readyState === 1) {
+      ws.send(JSON.stringify({ type: "project-paused", data }));
+    }
+  });
+
+  agentOrchestrator.on("project-resumed", (data) => {
+    const ws = wsClients.get(data.projectId);
+    if (ws && ws.readyState === 1) {
+      ws.send(JSON.stringify({ type: "project-resumed", data }));
+    }
+  });
+
+  agentOrchestrator.on("project-awaiting-approval", (data) => {
+    const ws = wsClients.get(data.projectId);
+    if (ws && ws.readyState === 1) {
+      ws.send(JSON.stringify({ type: "project-awaiting-approval", data }));
+    }
+  });
+
+  agentOrchestrator.on("project-error", (data) => {
+    const ws = wsClients.get(data.projectId);
+    if (ws && ws.readyState === 1) {
+      ws.send(JSON.stringify({ type: "project-error", data }));
+    }
+  });
+
+  agentOrchestrator.on("agent-rerun", (data) => {
+    const ws = wsClients.get(data.projectId);
+    if (ws && ws.readyState === 1) {
+      ws.send(JSON.stringify({ type: "agent-rerun", data }));
+    }
+  });
+
+  agentOrchestrator.on("approval-requested", (data) => {
+    const ws = wsClients.get(data.projectId);
+    if (ws && ws.readyState === 1) {
+      ws.send(JSON.stringify({ type: "approval-requested", data }));
+    }
+  });
+
   agentOrchestrator.on("project-completed", (data) => {
     const ws = wsClients.get(data.projectId);
     if (ws && ws.readyState === 1) {
@@ -237,5 +905,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  agentOrchestrator.on("run-recorded", (data) => {
+    const ws = wsClients.get(data.projectId);
+    if (ws && ws.readyState === 1) {
+      ws.send(JSON.stringify({ type: "run-recorded", data }));
+    }
+  });
+
   return httpServer;
 }
+
+// The requested agent if it is awaiting approval, else the first one waiting when none was named
+function pendingApprovalFor(project: Project, agent: unknown): string | undefined {
+  const waiting = (project.state as AgentState | null)?.awaitingApproval || [];
+  if (typeof agent === "string" && agent) {
+    return waiting.includes(agent) ? agent : undefined;
+  }
+  return waiting[0];
+}
+
+// Whose run limit a project counts against. There are no accounts yet, so clients are told apart by address
+function requestOwner(req: Request): string {
+  return req.ip || "anonymous";
+}
+
+// A non-negative integer query parameter, or undefined when it is missing or malformed
+function queryInt(value: unknown): number | undefined {
+  const number = typeof value === "string" ? Number(value) : NaN;
+  return Number.isInteger(number) && number >= 0 ? number : undefined;
+}
+
+// Why the project's pipeline can't run, or null when it resolves against the registered agents
+function pipelineError(config: any): string | null {
+  // Scripts are read from the server's own fixtures, never from a path a client names
+  if (config?.llm?.scriptPath !== undefined) {
+    return "config.llm.scriptPath is not accepted; name a checked-in script with config.llm.scriptName";
+  }
+  if (config?.pipeline !== undefined) {
+    const parsed = pipelineDefinitionSchema.safeParse(config.pipeline);
+    if (!parsed.success) {
+      return `Invalid pipeline: ${parsed.error.errors.map(issue => issue.message).join(", ")}`;
+    }
+  }
+  try {
+    agentOrchestrator.getPipeline(config);
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+// Stores a freshly supplied key and reports when a run would have none to use
+function acceptApiKey(projectId: string, config: unknown, apiKey: unknown): string | null {
+  if (typeof apiKey === "string" && apiKey) {
+    keyVault.set(projectId, apiKey);
+  }
+  if (requiresApiKey(config) && !keyVault.has(projectId)) {
+    return "A Gemini API key is required to run this project";
+  }
+  return null;
+}
@@ -0,0 +1,365 @@
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import type {
+  User,
+  InsertUser,
+  Project,
+  InsertProject,
+  AgentLog,
+  InsertAgentLog,
+  ProjectFile,
+  InsertProjectFile,
+  FileRevision,
+  ProjectRun,
+  InsertProjectRun,
+  AgentState,
+  LlmCacheEntry,
+  InsertLlmCacheEntry,
+  RunJob,
+  InsertRunJob,
+  AgentRoute,
+  AgentRouting
+} from "@shared/schema";
+import { MemStorage } from "./memStorage";
+import { reviveDates, writeFileAtomic } from "./jsonStorage";
+
+type SqlValue = string | number | null;
+
+// The little of SQLite the storage needs, over whichever engine this Node has
+interface SqliteDriver {
+  exec(sql: string): void;
+  run(sql: string, params: SqlValue[]): void;
+  all(sql: string, params?: SqlValue[]): Record<string, SqlValue>[];
+  // Told after each committed change
+  changed(): void;
+  // Resolves once every change made so far is on disk
+  flush(): Promise<void>;
+}
+
+// The part of node:sqlite used here; the Node 20 typings don't describe the module
+interface NodeSqliteStatement {
+  run(...params: SqlValue[]): unknown;
+  all(...params: SqlValue[]): Record<string, SqlValue>[];
+}
+
+interface NodeSqlite {
+  DatabaseSync: new (file: string) => {
+    exec(sql: string): void;
+    prepare(sql: string): NodeSqliteStatement;
+  };
+}
+
+// How long sql.js gathers changes before writing the database out
+const SQL_JS_FLUSH_DELAY_MS = 250;
+
+// node:sqlite (Node 22.5 and later) writes each row to the file itself; every statement or
+// transaction is durable when it returns
+function openNodeSqlite(file: string): SqliteDriver | undefined {
+  let sqlite: NodeSqlite;
+  try {
+    sqlite = createRequire(import.meta.url)("node:sqlite");
+  } catch {
+    return undefined;
+  }
+  const db = new sqlite.DatabaseSync(file);
+  db.exec("PRAGMA journal_mode = WAL; PRAGMA synchronous = FULL;");
+  const statements = new Map<string, NodeSqliteStatement>();
+  const prepared = (sql: string) => {
+    if (!statements.has(sql)) {
+      statements.set(sql, db.prepare(sql));
+    }
+    return statements.get(sql)!;
+  };
+  return {
+    exec: (sql) => db.exec(sql),
+    run: (sql, params) => prepared(sql).run(...params),
+    all: (sql, params = []) => prepared(sql).all(...params),
+    changed: () => undefined,
+    flush: async () => undefined
+  };
+}
+
+// sql.js keeps the database in memory and has no file of its own, so it is written out whole.
+// Rather than once per change, that happens SQL_JS_FLUSH_DELAY_MS after the first change since
+// the last write, taking every change made meanwhile; a crash loses at most that window.
+async function openSqlJs(file: string): Promise<SqliteDriver> {
+  const { default: initSqlJs } = await import("sql.js");
+  const SQL = await initSqlJs();
+  const db = new SQL.Database(fs.existsSync(file) ? fs.readFileSync(file) : undefined);
+
+  let writing: Promise<void> = Promise.resolve();
+  let timer: NodeJS.Timeout | undefined;
+  let dirty = false;
+
+  const write = (): Promise<void> => {
+    clearTimeout(timer);
+    timer = undefined;
+    if (!dirty) {
+      return writing;
+    }
+    dirty = false;
+    writing = writing.catch(() => undefined).then(() => writeFileAtomic(file, db.export()));
+    writing.catch(error => console.error(`Failed to write ${file}:`, error));
+    return writing;
+  };
+
+  return {
+    exec: (sql) => db.exec(sql),
+    run: (sql, params) => db.run(sql, params),
+    all: (sql, params = []) => {
+      const statement = db.prepare(sql);
+      try {
+        statement.bind(params);
+        const rows: Record<string, SqlValue>[] = [];
+        while (statement.step()) {
+          rows.push(statement.getAsObject() as Record<string, SqlValue>);
+        }
+        return rows;
+      } finally {
+        statement.free();
+      }
+    },
+    changed: () => {
+      dirty = true;
+      timer ??= setTimeout(write, SQL_JS_FLUSH_DELAY_MS);
+    },
+    flush: write
+  };
+}
+
+// Record tables: each row holds one record as JSON, keyed like its Postgres counterpart
+const PROJECT_TABLES = ["agent_logs", "project_files", "file_revisions", "project_runs", "run_jobs"] as const;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (id TEXT PRIMARY KEY, data TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS projects (id TEXT PRIMARY KEY, data TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS llm_cache (id TEXT PRIMARY KEY, data TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS agent_routes (id TEXT PRIMARY KEY, data TEXT NOT NULL);
+  ${PROJECT_TABLES.map(table => `
+    CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, project_id TEXT NOT NULL, data TEXT NOT NULL);
+    CREATE INDEX IF NOT EXISTS ${table}_project_idx ON ${table} (project_id);
+  `).join("")}
+`;
+
+type Table = "users" | "projects" | "llm_cache" | "agent_routes" | typeof PROJECT_TABLES[number];
+
+// Serves reads from memory like MemStorage and writes each changed record through to one SQLite
+// file, so a local install keeps everything across restarts with nothing to set up. Uses
+// node:sqlite where Node has it and sql.js (WebAssembly) otherwise; call open() before use and
+// flush() before anything else opens the file.
+export class SqliteStorage extends MemStorage {
+  private driver?: SqliteDriver;
+
+  constructor(private file: string) {
+    super();
+  }
+
+  async open(): Promise<void> {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    this.driver = openNodeSqlite(this.file) ?? await openSqlJs(this.file);
+    this.driver.exec(SCHEMA);
+    this.load();
+  }
+
+  flush(): Promise<void> {
+    return this.db().flush();
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const user = await super.createUser(insertUser);
+    await this.write(() => this.put("users", user.id, user));
+    return user;
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const project = await super.createProject(insertProject);
+    await this.writeProject(project.id);
+    return project;
+  }
+
+  async updateProjectStatus(id: string, status: string): Promise<void> {
+    await super.updateProjectStatus(id, status);
+    await this.writeProject(id);
+  }
+
+  async updateProjectState(id: string, state: AgentState): Promise<void> {
+    await super.updateProjectState(id, state);
+    await this.writeProject(id);
+  }
+
+  async updateProjectConfig(id: string, config: unknown): Promise<void> {
+    await super.updateProjectConfig(id, config);
+    await this.writeProject(id);
+  }
+
+  async softDeleteProject(id: string): Promise<void> {
+    await super.softDeleteProject(id);
+    await this.writeProject(id);
+  }
+
+  async restoreProject(id: string): Promise<void> {
+    await super.restoreProject(id);
+    await this.writeProject(id);
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    await super.deleteProject(id);
+    await this.write(() => {
+      this.db().run("DELETE FROM projects WHERE id = ?", [id]);
+      for (const table of PROJECT_TABLES) {
+        this.db().run(`DELETE FROM ${table} WHERE project_id = ?`, [id]);
+      }
+    });
+  }
+
+  async addAgentLog(insertLog: InsertAgentLog): Promise<AgentLog> {
+    const log = await super.addAgentLog(insertLog);
+    await this.write(() => this.put("agent_logs", log.id, log, log.projectId));
+    return log;
+  }
+
+  async saveProjectFile(insertFile: InsertProjectFile): Promise<ProjectFile> {
+    const revisions = this.fileRevisions.size;
+    const file = await super.saveProjectFile(insertFile);
+    if (this.fileRevisions.size !== revisions) {
+      await this.writeFileChange(file);
+    }
+    return file;
+  }
+
+  async updateProjectFile(id: string, content: string): Promise<void> {
+    const revisions = this.fileRevisions.size;
+    await super.updateProjectFile(id, content);
+    const file = this.projectFiles.get(id);
+    if (file && this.fileRevisions.size !== revisions) {
+      await this.writeFileChange(file);
+    }
+  }
+
+  async deleteProjectFiles(projectId: string, agentNames?: string[]): Promise<void> {
+    const before = await this.getProjectFiles(projectId);
+    await super.deleteProjectFiles(projectId, agentNames);
+    const removed = before.filter(file => !this.projectFiles.has(file.id));
+    await this.write(() => removed.forEach(file => this.db().run("DELETE FROM project_files WHERE id = ?", [file.id])));
+  }
+
+  async addProjectRun(insertRun: InsertProjectRun): Promise<ProjectRun> {
+    const run = await super.addProjectRun(insertRun);
+    await this.write(() => this.put("project_runs", run.id, run, run.projectId));
+    return run;
+  }
+
+  // Hits only refresh lastHitAt in memory; it is written with the next change to the entry
+  async getCachedResponse(key: string): Promise<LlmCacheEntry | undefined> {
+    const known = this.llmCache.has(key);
+    const entry = await super.getCachedResponse(key);
+    if (known && !entry) {
+      await this.write(() => this.db().run("DELETE FROM llm_cache WHERE id = ?", [key]));
+    }
+    return entry;
+  }
+
+  async setCachedResponse(insertEntry: InsertLlmCacheEntry): Promise<void> {
+    await super.setCachedResponse(insertEntry);
+    const entry = this.llmCache.get(insertEntry.key)!;
+    await this.write(() => this.put("llm_cache", entry.key, entry));
+  }
+
+  async pruneCachedResponses(maxEntries: number): Promise<void> {
+    const before = Array.from(this.llmCache.keys());
+    await super.pruneCachedResponses(maxEntries);
+    const removed = before.filter(key => !this.llmCache.has(key));
+    await this.write(() => removed.forEach(key => this.db().run("DELETE FROM llm_cache WHERE id = ?", [key])));
+  }
+
+  async addRunJob(insertJob: InsertRunJob): Promise<RunJob> {
+    const job = await super.addRunJob(insertJob);
+    await this.write(() => this.put("run_jobs", job.id, job, job.projectId));
+    return job;
+  }
+
+  async updateRunJob(id: string, changes: Partial<Pick<RunJob, "status" | "only" | "startedAt">>): Promise<void> {
+    await super.updateRunJob(id, changes);
+    const job = this.runJobs.get(id);
+    if (job) {
+      await this.write(() => this.put("run_jobs", job.id, job, job.projectId));
+    }
+  }
+
+  async deleteRunJob(id: string): Promise<void> {
+    await super.deleteRunJob(id);
+    await this.write(() => this.db().run("DELETE FROM run_jobs WHERE id = ?", [id]));
+  }
+
+  async setAgentRoute(agent: string, routing: AgentRouting): Promise<void> {
+    await super.setAgentRoute(agent, routing);
+    const route = this.agentRoutes.get(agent)!;
+    await this.write(() => this.put("agent_routes", agent, route));
+  }
+
+  private load() {
+    const rows = <T>(table: Table) =>
+      this.db().all(`SELECT data FROM ${table}`).map(row => reviveDates(JSON.parse(row.data as string) as T));
+
+    rows<User>("users").forEach(user => this.users.set(user.id, user));
+    rows<Project>("projects").forEach(project => this.projects.set(project.id, project));
+    rows<LlmCacheEntry>("llm_cache").forEach(entry => this.llmCache.set(entry.key, entry));
+    rows<AgentLog>("agent_logs").forEach(log => this.agentLogs.set(log.id, log));
+    rows<ProjectFile>("project_files").forEach(file => this.putFile(file));
+    rows<FileRevision>("file_revisions").forEach(revision => this.putRevision(revision));
+    rows<ProjectRun>("project_runs").forEach(run => this.projectRuns.set(run.id, run));
+    rows<RunJob>("run_jobs").forEach(job => this.runJobs.set(job.id, job));
+    rows<AgentRoute>("agent_routes").forEach(route => this.agentRoutes.set(route.agent, route));
+  }
+
+  private db(): SqliteDriver {
+    if (!this.driver) {
+      throw new Error("SqliteStorage used before open()");
+    }
+    return this.driver;
+  }
+
+  private async writeProject(id: string): Promise<void> {
+    const project = this.projects.get(id);
+    if (project) {
+      await this.write(() => this.put("projects", project.id, project));
+    }
+  }
+
+  private async writeFileChange(file: ProjectFile): Promise<void> {
+    const revision = await this.getFileRevision(file.projectId, file.path, file.revision);
+    await this.write(() => {
+      this.put("project_files", file.id, file, file.projectId);
+      if (revision) {
+        this.put("file_revisions", revision.id, revision, revision.projectId);
+      }
+    });
+  }
+
+  private put(table: Table, id: string, record: unknown, projectId?: string) {
+    const data = JSON.stringify(record);
+    if (projectId === undefined) {
+      this.db().run(`INSERT INTO ${table} (id, data) VALUES (?, ?) ON CONFLICT (id) DO UPDATE SET data = excluded.data`, [id, data]);
+    } else {
+      this.db().run(
+        `INSERT INTO ${table} (id, project_id, data) VALUES (?, ?, ?) ON CONFLICT (id) DO UPDATE SET data = excluded.data`,
+        [id, projectId, data]
+      );
+    }
+  }
+
+  // Statements of one change commit together; nothing else runs in between since they are synchronous
+  private async write(statements: () => void): Promise<void> {
+    const db = this.db();
+    db.exec("BEGIN");
+    try {
+      statements();
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+    db.changed();
+  }
+}
@@ -0,0 +1,440 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { sql } from "drizzle-orm";
+import { projectListQuerySchema, type InsertProject } from "@shared/schema";
+import { MemStorage, JsonFileStorage, PgStorage, SqliteStorage, type IStorage } from "./storage";
+import { decodeProjectCursor, type ProjectListOptions } from "./projectList";
+
+// One contract, every backend: each describe block below gets a fresh, empty storage per test
+interface Backend {
+  name: string;
+  create: () => Promise<IStorage>;
+  // Opens a second storage over the same data, for backends that persist
+  reopen?: () => Promise<IStorage>;
+}
+
+const tmpDirs: string[] = [];
+let jsonDir = "";
+let sqliteFile = "";
+let sqliteStorage: SqliteStorage | undefined;
+
+const pglite = new PGlite();
+const pgDb = drizzle(pglite);
+let migrated: Promise<void> | undefined;
+
+async function openSqlite(file: string): Promise<SqliteStorage> {
+  const storage = new SqliteStorage(file);
+  await storage.open();
+  return storage;
+}
+
+const backends: Backend[] = [
+  { name: "MemStorage", create: async () => new MemStorage() },
+  {
+    name: "JsonFileStorage",
+    create: async () => {
+      jsonDir = fs.mkdtempSync(path.join(os.tmpdir(), "storage-test-"));
+      tmpDirs.push(jsonDir);
+      return new JsonFileStorage(jsonDir);
+    },
+    reopen: async () => new JsonFileStorage(jsonDir)
+  },
+  {
+    name: "SqliteStorage",
+    create: async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "storage-test-"));
+      tmpDirs.push(dir);
+      sqliteFile = path.join(dir, "state.sqlite");
+      sqliteStorage = await openSqlite(sqliteFile);
+      return sqliteStorage;
+    },
+    // sql.js writes the file a moment after a change; another opener must wait for that
+    reopen: async () => {
+      await sqliteStorage!.flush();
+      return openSqlite(sqliteFile);
+    }
+  },
+  {
+    name: "PgStorage",
+    create: async () => {
+      migrated ??= migrate(pgDb, { migrationsFolder: path.resolve(import.meta.dirname, "../migrations") });
+      await migrated;
+      await pgDb.execute(sql`truncate table users, projects, llm_cache, agent_routes cascade`);
+      return new PgStorage(pgDb);
+    },
+    reopen: async () => new PgStorage(pgDb)
+  }
+];
+
+afterAll(async () => {
+  await pglite.close();
+  for (const dir of tmpDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+const newProject = (overrides: Partial<InsertProject> = {}): InsertProject => ({
+  name: "Todo app",
+  description: "Tracks things to do",
+  config: { techStack: "react" },
+  ownerId: "alice",
+  ...overrides
+});
+
+const listOptions = (query: Record<string, unknown> = {}): ProjectListOptions => {
+  const { cursor, ...options } = projectListQuerySchema.parse(query);
+  return { ...options, after: cursor ? decodeProjectCursor(cursor) : undefined };
+};
+
+// Every page of a listing, following cursors to the end
+async function listAll(storage: IStorage, query: Record<string, unknown> = {}) {
+  const names: string[] = [];
+  let options = listOptions(query);
+  for (;;) {
+    const page = await storage.listProjects(options);
+    names.push(...page.projects.map(project => project.name));
+    if (!page.nextCursor) {
+      return names;
+    }
+    options = { ...options, after: decodeProjectCursor(page.nextCursor) };
+  }
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe.each(backends)("$name", (backend) => {
+  let storage: IStorage;
+
+  beforeEach(async () => {
+    storage = await backend.create();
+  });
+
+  describe("users", () => {
+    it("creates users and finds them by id and username", async () => {
+      const user = await storage.createUser({ username: "alice", password: "secret" });
+      expect(await storage.getUser(user.id)).toMatchObject({ username: "alice" });
+      expect(await storage.getUserByUsername("alice")).toMatchObject({ id: user.id });
+      expect(await storage.getUserByUsername("bob")).toBeUndefined();
+    });
+  });
+
+  describe("projects", () => {
+    it("creates a pending project with timestamps", async () => {
+      const project = await storage.createProject(newProject());
+      expect(project).toMatchObject({ name: "Todo app", ownerId: "alice", status: "pending", state: null, deletedAt: null });
+      expect(project.createdAt).toBeInstanceOf(Date);
+      expect(await storage.getProject(project.id)).toMatchObject({ id: project.id, config: { techStack: "react" } });
+      expect(await storage.getProject("missing")).toBeUndefined();
+    });
+
+    it("updates status, state and config", async () => {
+      const project = await storage.createProject(newProject());
+      const state = { currentAgent: "Frontend", completedAgents: ["Requirement"], agentProgress: {}, agentOutputs: {}, errors: [] };
+      await storage.updateProjectStatus(project.id, "running");
+      await storage.updateProjectState(project.id, state);
+      await storage.updateProjectConfig(project.id, { techStack: "vue" });
+
+      const updated = await storage.getProject(project.id);
+      expect(updated).toMatchObject({ status: "running", state, config: { techStack: "vue" } });
+      expect((await storage.getProjectsByStatus("running")).map(p => p.id)).toEqual([project.id]);
+      expect(await storage.getProjectsByStatus("paused")).toEqual([]);
+    });
+
+    it("lists with filters, sort and cursor pagination", async () => {
+      for (const [name, ownerId] of [["Beta", "alice"], ["alpha", "bob"], ["Gamma", "alice"], ["Delta", "bob"], ["Epsilon", "alice"]]) {
+        await storage.createProject(newProject({ name, ownerId, description: name === "Delta" ? "A chess CLUB site" : "demo" }));
+        await tick();
+      }
+
+      expect(await listAll(storage, { sort: "name", order: "asc", limit: 2 })).toEqual(["Beta", "Delta", "Epsilon", "Gamma", "alpha"]);
+      expect(await listAll(storage, { limit: 2 })).toEqual(["Epsilon", "Delta", "Gamma", "alpha", "Beta"]);
+      expect(await listAll(storage, { ownerId: "bob", order: "asc" })).toEqual(["alpha", "Delta"]);
+      expect(await listAll(storage, { search: "club" })).toEqual(["Delta"]);
+      expect(await listAll(storage, { search: "ALPHA" })).toEqual(["alpha"]);
+      expect(await listAll(storage, { search: "100%" })).toEqual([]);
+    });
+
+    it("filters by status and creation date", async () => {
+      const first = await storage.createProject(newProject({ name: "First" }));
+      await tick();
+      const second = await storage.createProject(newProject({ name: "Second" }));
+      await storage.updateProjectStatus(second.id, "completed");
+
+      expect(await listAll(storage, { status: "completed,error" })).toEqual(["Second"]);
+      expect(await listAll(storage, { createdAfter: second.createdAt.toISOString() })).toEqual(["Second"]);
+      expect(await listAll(storage, { createdBefore: first.createdAt.toISOString() })).toEqual(["First"]);
+    });
+
+    it("soft-deletes and restores", async () => {
+      const kept = await storage.createProject(newProject({ name: "Kept" }));
+      const trashed = await storage.createProject(newProject({ name: "Trashed" }));
+      await storage.softDeleteProject(trashed.id);
+
+      expect((await storage.getProject(trashed.id))?.deletedAt).toBeInstanceOf(Date);
+      expect(await listAll(storage)).toEqual(["Kept"]);
+      expect(await listAll(storage, { deleted: "only" })).toEqual(["Trashed"]);
+      expect((await listAll(storage, { deleted: "include" })).sort()).toEqual(["Kept", "Trashed"]);
+
+      await storage.restoreProject(trashed.id);
+      expect((await storage.getProject(trashed.id))?.deletedAt).toBeNull();
+      expect(await storage.getProject(kept.id)).toBeDefined();
+    });
+
+    it("hard-deletes a project with everything recorded about it", async () => {
+      const doomed = await storage.createProject(newProject({ name: "Doomed" }));
+      const other = await storage.createProject(newProject({ name: "Other" }));
+      for (const project of [doomed, other]) {
+        await storage.addAgentLog({ projectId: project.id, agentName: "Frontend", level: "info", message: "hi" });
+        await storage.saveProjectFile({ projectId: project.id, path: "/a.ts", content: "a", size: 1, agentName: "Frontend" });
+        await storage.addProjectRun({ projectId: project.id, status: "completed", startedAt: new Date(), files: { "/a.ts": 1 } });
+        await storage.addRunJob({ projectId: project.id, ownerId: "alice" });
+      }
+
+      await storage.deleteProject(doomed.id);
+
+      expect(await storage.getProject(doomed.id)).toBeUndefined();
+      expect(await storage.getProjectLogs(doomed.id)).toEqual([]);
+      expect(await storage.getProjectFiles(doomed.id)).toEqual([]);
+      expect(await storage.getFileRevisions(doomed.id, "/a.ts")).toEqual([]);
+      expect(await storage.getProjectRuns(doomed.id)).toEqual([]);
+      expect((await storage.getRunJobs()).map(job => job.projectId)).toEqual([other.id]);
+      expect(await storage.getProjectLogs(other.id)).toHaveLength(1);
+      expect(await storage.getProjectFiles(other.id)).toHaveLength(1);
+    });
+  });
+
+  describe("agent logs", () => {
+    it("returns a project's logs oldest first", async () => {
+      const project = await storage.createProject(newProject());
+      await storage.addAgentLog({ projectId: project.id, agentName: "Requirement", level: "info", message: "one" });
+      await tick();
+      const log = await storage.addAgentLog({ projectId: project.id, agentName: "Frontend", level: "warn", message: "two", metadata: { attempt: 2 } });
+
+      expect(log).toMatchObject({ message: "two", metadata: { attempt: 2 } });
+      expect(log.timestamp).toBeInstanceOf(Date);
+      expect((await storage.getProjectLogs(project.id)).map(l => l.message)).toEqual(["one", "two"]);
+    });
+  });
+
+  describe("project files", () => {
+    it("keeps one file per path and records each change as a revision", async () => {
+      const project = await storage.createProject(newProject());
+      const first = await storage.saveProjectFile({ projectId: project.id, path: "/App.tsx", content: "v1", size: 2, agentName: "Frontend" });
+      const unchanged = await storage.saveProjectFile({ projectId: project.id, path: "/App.tsx", content: "v1", size: 2, agentName: "Frontend" });
+      const second = await storage.saveProjectFile({ projectId: project.id, path: "/App.tsx", content: "v2", size: 2, agentName: "Validator" });
+
+      expect(first.revision).toBe(1);
+      expect(unchanged).toMatchObject({ id: first.id, revision: 1 });
+      expect(second).toMatchObject({ id: first.id, revision: 2, agentName: "Validator" });
+      expect(await storage.getProjectFiles(project.id)).toHaveLength(1);
+
+      await storage.updateProjectFile(first.id, "v3");
+      const revisions = await storage.getFileRevisions(project.id, "/App.tsx");
+      expect(revisions.map(r => [r.revision, r.content, r.agentName])).toEqual([
+        [1, "v1", "Frontend"],
+        [2, "v2", "Validator"],
+        [3, "v3", null]
+      ]);
+      expect(await storage.getFileRevision(project.id, "/App.tsx", 2)).toMatchObject({ content: "v2" });
+      expect(await storage.getFileRevision(project.id, "/App.tsx", 9)).toBeUndefined();
+    });
+
+    it("numbers revisions on after a file is deleted and written again", async () => {
+      const project = await storage.createProject(newProject());
+      await storage.saveProjectFile({ projectId: project.id, path: "/a.ts", content: "a", size: 1, agentName: "Frontend" });
+      await storage.saveProjectFile({ projectId: project.id, path: "/b.ts", content: "b", size: 1, agentName: "Backend" });
+      await storage.deleteProjectFiles(project.id, ["Frontend"]);
+
+      expect((await storage.getProjectFiles(project.id)).map(f => f.path)).toEqual(["/b.ts"]);
+      const again = await storage.saveProjectFile({ projectId: project.id, path: "/a.ts", content: "a", size: 1, agentName: "Frontend" });
+      expect(again.revision).toBe(2);
+
+      await storage.deleteProjectFiles(project.id);
+      expect(await storage.getProjectFiles(project.id)).toEqual([]);
+    });
+
+    it("keeps the same path of different projects apart", async () => {
+      const one = await storage.createProject(newProject());
+      const two = await storage.createProject(newProject());
+      await storage.saveProjectFile({ projectId: one.id, path: "/a.ts", content: "one", size: 3, agentName: "Frontend" });
+      await storage.saveProjectFile({ projectId: two.id, path: "/a.ts", content: "two", size: 3, agentName: "Frontend" });
+      await storage.saveProjectFile({ projectId: two.id, path: "/a.ts", content: "two again", size: 9, agentName: "Frontend" });
+
+      expect((await storage.getProjectFiles(one.id)).map(f => [f.content, f.revision])).toEqual([["one", 1]]);
+      expect((await storage.getProjectFiles(two.id)).map(f => [f.content, f.revision])).toEqual([["two again", 2]]);
+      expect(await storage.getFileRevisions(one.id, "/a.ts")).toHaveLength(1);
+
+      await storage.deleteProject(two.id);
+      expect(await storage.getFileRevisions(two.id, "/a.ts")).toEqual([]);
+      expect(await storage.getProjectFiles(one.id)).toHaveLength(1);
+    });
+
+    it("survives parallel first writes of the same path", async () => {
+      const project = await storage.createProject(newProject());
+      const writes = ["frontend", "backend", "validator"].map(content =>
+        storage.saveProjectFile({ projectId: project.id, path: "/package.json", content, size: content.length, agentName: content })
+      );
+      await Promise.all(writes);
+
+      const files = await storage.getProjectFiles(project.id);
+      const revisions = await storage.getFileRevisions(project.id, "/package.json");
+      expect(files).toHaveLength(1);
+      expect(revisions.map(r => r.revision)).toEqual([1, 2, 3]);
+      expect(files[0].revision).toBe(3);
+      expect(files[0].content).toBe(revisions[2].content);
+    });
+  });
+
+  describe("project runs", () => {
+    it("numbers runs per project", async () => {
+      const project = await storage.createProject(newProject());
+      const other = await storage.createProject(newProject());
+      const startedAt = new Date();
+      await Promise.all([
+        storage.addProjectRun({ projectId: project.id, status: "completed", startedAt, files: { "/a.ts": 1 } }),
+        storage.addProjectRun({ projectId: project.id, status: "error", startedAt, files: {} })
+      ]);
+      await storage.addProjectRun({ projectId: other.id, status: "stopped", startedAt, files: {} });
+
+      const runs = await storage.getProjectRuns(project.id);
+      expect(runs.map(run => run.number)).toEqual([1, 2]);
+      expect(runs.map(run => run.status).sort()).toEqual(["completed", "error"]);
+      expect(runs[0].finishedAt).toBeInstanceOf(Date);
+      expect((await storage.getProjectRuns(other.id)).map(run => run.number)).toEqual([1]);
+    });
+  });
+
+  describe("LLM cache", () => {
+    const entry = (key: string, expiresInMs = 60_000) => ({
+      key,
+      provider: "fake",
+      model: "fake-model",
+      response: { text: key },
+      size: key.length,
+      expiresAt: new Date(Date.now() + expiresInMs)
+    });
+
+    it("stores, replaces and expires entries", async () => {
+      await storage.setCachedResponse(entry("a"));
+      await storage.setCachedResponse({ ...entry("a"), response: { text: "replaced" } });
+      await storage.setCachedResponse(entry("stale", -1));
+
+      expect(await storage.getCachedResponse("a")).toMatchObject({ response: { text: "replaced" } });
+      expect(await storage.getCachedResponse("stale")).toBeUndefined();
+      expect(await storage.getCachedResponse("missing")).toBeUndefined();
+    });
+
+    it("prunes to the most recently used entries", async () => {
+      for (const key of ["a", "b", "c"]) {
+        await storage.setCachedResponse(entry(key));
+        await tick();
+      }
+      await storage.getCachedResponse("a");
+      await storage.pruneCachedResponses(2);
+
+      expect(await storage.getCachedResponse("a")).toBeDefined();
+      expect(await storage.getCachedResponse("b")).toBeUndefined();
+      expect(await storage.getCachedResponse("c")).toBeDefined();
+    });
+  });
+
+  describe("run jobs", () => {
+    it("adds, updates and deletes jobs, oldest first", async () => {
+      const first = await storage.createProject(newProject());
+      const second = await storage.createProject(newProject());
+      const job = await storage.addRunJob({ projectId: first.id, ownerId: "alice", only: ["Frontend"] });
+      await tick();
+      await storage.addRunJob({ projectId: second.id, ownerId: "bob" });
+
+      expect(job).toMatchObject({ status: "queued", only: ["Frontend"], startedAt: null });
+      const startedAt = new Date();
+      await storage.updateRunJob(job.id, { status: "running", startedAt });
+
+      const jobs = await storage.getRunJobs();
+      expect(jobs.map(j => j.projectId)).toEqual([first.id, second.id]);
+      expect(jobs[0]).toMatchObject({ status: "running", only: ["Frontend"] });
+      expect(jobs[0].startedAt?.getTime()).toBe(startedAt.getTime());
+
+      await storage.deleteRunJob(job.id);
+      expect((await storage.getRunJobs()).map(j => j.projectId)).toEqual([second.id]);
+    });
+  });
+
+  describe("agent routes", () => {
+    it("sets and replaces the routing of each agent", async () => {
+      await storage.setAgentRoute("default", { text: { model: "gemini-2.5-flash" } });
+      await storage.setAgentRoute("Frontend", { text: { model: "gemini-2.5-pro", temperature: 0.2 } });
+      await storage.setAgentRoute("default", { structured: { model: "gemini-2.5-pro" } });
+
+      const routes = await storage.getAgentRoutes();
+      expect(Object.fromEntries(routes.map(route => [route.agent, route.routing]))).toEqual({
+        default: { structured: { model: "gemini-2.5-pro" } },
+        Frontend: { text: { model: "gemini-2.5-pro", temperature: 0.2 } }
+      });
+      expect(routes[0].updatedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe.runIf(backend.reopen)("persistence", () => {
+    it("keeps everything across a reopen", async () => {
+      const project = await storage.createProject(newProject());
+      await storage.updateProjectState(project.id, {
+        currentAgent: null,
+        completedAgents: [],
+        agentProgress: {},
+        agentOutputs: { Requirement: { createdAt: "not a date" } },
+        errors: [{ agent: "Frontend", error: "boom", timestamp: "2026-01-01T00:00:00.000Z" }]
+      });
+      await storage.addAgentLog({ projectId: project.id, agentName: "Frontend", level: "info", message: "hi", metadata: { timestamp: "raw" } });
+      await storage.saveProjectFile({ projectId: project.id, path: "/a.ts", content: "a", size: 1, agentName: "Frontend" });
+      await storage.addProjectRun({ projectId: project.id, status: "completed", startedAt: new Date(), files: { "/a.ts": 1 } });
+      await storage.softDeleteProject(project.id);
+      await storage.setAgentRoute("Frontend", { text: { model: "gemini-2.5-pro" } });
+
+      const reopened = await backend.reopen!();
+      const loaded = await reopened.getProject(project.id);
+      expect(loaded?.deletedAt).toBeInstanceOf(Date);
+      expect(loaded?.createdAt).toBeInstanceOf(Date);
+      // Nested values that only look like record fields stay as they were written
+      expect(loaded?.state).toMatchObject({
+        agentOutputs: { Requirement: { createdAt: "not a date" } },
+        errors: [{ timestamp: "2026-01-01T00:00:00.000Z" }]
+      });
+      const [log] = await reopened.getProjectLogs(project.id);
+      expect(log.timestamp).toBeInstanceOf(Date);
+      expect(log.metadata).toEqual({ timestamp: "raw" });
+      expect(log.metadata).toEqual({ timestamp: "raw" });
+      expect(await reopened.getFileRevisions(project.id, "/a.ts")).toHaveLength(1);
+      expect(await reopened.getProjectRuns(project.id)).toHaveLength(1);
+      const [route] = await reopened.getAgentRoutes();
+      expect(route).toMatchObject({ agent: "Frontend", routing: { text: { model: "gemini-2.5-pro" } } });
+      expect(route.updatedAt).toBeInstanceOf(Date);
+    });
+  });
+});
+
+describe("JsonFileStorage layout", () => {
+  it("appends logs instead of rewriting the project, and drops a line cut short by a crash", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "storage-test-"));
+    tmpDirs.push(dir);
+    const storage = new JsonFileStorage(dir);
+    const project = await storage.createProject(newProject());
+    const projectFile = path.join(dir, "projects", project.id, "project.json");
+    const written = fs.statSync(projectFile).mtimeMs;
+
+    await storage.addAgentLog({ projectId: project.id, agentName: "Frontend", level: "info", message: "one" });
+    await storage.addAgentLog({ projectId: project.id, agentName: "Frontend", level: "info", message: "two" });
+    const logFile = path.join(dir, "projects", project.id, "logs.jsonl");
+    expect(fs.readFileSync(logFile, "utf-8").trim().split("\n")).toHaveLength(2);
+    expect(fs.statSync(projectFile).mtimeMs).toBe(written);
+
+    fs.appendFileSync(logFile, '{"id":"torn","projectId"');
+    const reopened = new JsonFileStorage(dir);
+    expect((await reopened.getProjectLogs(project.id)).map(log => log.message)).toEqual(["one", "two"]);
+  });
+});
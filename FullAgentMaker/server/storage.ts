@@ -1,15 +1,36 @@
-import { 
-  type User, 
-  type InsertUser,
-  type Project,
-  type InsertProject,
-  type AgentLog,
-  type InsertAgentLog,
-  type ProjectFile,
-  type InsertProjectFile,
-  type AgentState
+import type {
+  User,
+  InsertUser,
+  Project,
+  InsertProject,
+  AgentLog,
+  InsertAgentLog,
+  ProjectFile,
+  InsertProjectFile,
+  FileRevision,
+  ProjectRun,
+  InsertProjectRun,
+  AgentState,
+  LlmCacheEntry,
+  InsertLlmCacheEntry,
+  RunJob,
+  InsertRunJob,
+  AgentRoute,
+  AgentRouting
 } from "@shared/schema";
-import { randomUUID } from "crypto";
+import path from "path";
+import type { ProjectListOptions, ProjectPage } from "./projectList";
+import { createDatabase } from "./db";
+import { MemStorage } from "./memStorage";
+import { PgStorage } from "./pgStorage";
+import { JsonFileStorage } from "./jsonStorage";
+import { SqliteStorage } from "./sqliteStorage";
+
+export { MemStorage } from "./memStorage";
+export { PgStorage } from "./pgStorage";
+export { JsonFileStorage } from "./jsonStorage";
+export { SqliteStorage } from "./sqliteStorage";
+
 
 export interface IStorage {
   // User management
@@ -19,135 +40,72 @@ export interface IStorage {
   
   // Project management
   getProject(id: string): Promise<Project | undefined>;
+  getProjectsByStatus(status: string): Promise<Project[]>;
   createProject(project: InsertProject): Promise<Project>;
   updateProjectStatus(id: string, status: string): Promise<void>;
   updateProjectState(id: string, state: AgentState): Promise<void>;
+  updateProjectConfig(id: string, config: unknown): Promise<void>;
+  listProjects(options: ProjectListOptions): Promise<ProjectPage>;
+  // Soft deletion only sets deletedAt; deleteProject removes the project with its logs, files, revisions and runs
+  softDeleteProject(id: string): Promise<void>;
+  restoreProject(id: string): Promise<void>;
+  deleteProject(id: string): Promise<void>;
   
   // Agent logs
   getProjectLogs(projectId: string): Promise<AgentLog[]>;
   addAgentLog(log: InsertAgentLog): Promise<AgentLog>;
   
-  // Project files
+  // Project files, one per path; every change of content is recorded as a revision
   getProjectFiles(projectId: string): Promise<ProjectFile[]>;
-  addProjectFile(file: InsertProjectFile): Promise<ProjectFile>;
+  saveProjectFile(file: InsertProjectFile): Promise<ProjectFile>;
   updateProjectFile(id: string, content: string): Promise<void>;
+  deleteProjectFiles(projectId: string, agentNames?: string[]): Promise<void>;
+  getFileRevisions(projectId: string, path: string): Promise<FileRevision[]>;
+  getFileRevision(projectId: string, path: string, revision: number): Promise<FileRevision | undefined>;
+
+  // Project runs, numbered per project in the order they finished
+  addProjectRun(run: InsertProjectRun): Promise<ProjectRun>;
+  getProjectRuns(projectId: string): Promise<ProjectRun[]>;
+
+  // LLM response cache
+  getCachedResponse(key: string): Promise<LlmCacheEntry | undefined>;
+  setCachedResponse(entry: InsertLlmCacheEntry): Promise<void>;
+  pruneCachedResponses(maxEntries: number): Promise<void>;
+
+  // Run queue
+  getRunJobs(): Promise<RunJob[]>;
+  addRunJob(job: InsertRunJob): Promise<RunJob>;
+  updateRunJob(id: string, changes: Partial<Pick<RunJob, "status" | "only" | "startedAt">>): Promise<void>;
+  deleteRunJob(id: string): Promise<void>;
+
+  // Server-wide model routing, keyed by agent name or "default"
+  getAgentRoutes(): Promise<AgentRoute[]>;
+  setAgentRoute(agent: string, routing: AgentRouting): Promise<void>;
 }
 
-export class MemStorage implements IStorage {
-  private users: Map<string, User>;
-  private projects: Map<string, Project>;
-  private agentLogs: Map<string, AgentLog>;
-  private projectFiles: Map<string, ProjectFile>;
-
-  constructor() {
-    this.users = new Map();
-    this.projects = new Map();
-    this.agentLogs = new Map();
-    this.projectFiles = new Map();
-  }
-
-  // User methods
-  async getUser(id: string): Promise<User | undefined> {
-    return this.users.get(id);
-  }
-
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username,
-    );
-  }
-
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = randomUUID();
-    const user: User = { ...insertUser, id };
-    this.users.set(id, user);
-    return user;
-  }
-
-  // Project methods
-  async getProject(id: string): Promise<Project | undefined> {
-    return this.projects.get(id);
-  }
-
-  async createProject(insertProject: InsertProject): Promise<Project> {
-    const id = randomUUID();
-    const now = new Date();
-    const project: Project = {
-      ...insertProject,
-      id,
-      status: "pending",
-      state: null,
-      createdAt: now,
-      updatedAt: now
-    };
-    this.projects.set(id, project);
-    return project;
-  }
-
-  async updateProjectStatus(id: string, status: string): Promise<void> {
-    const project = this.projects.get(id);
-    if (project) {
-      project.status = status;
-      project.updatedAt = new Date();
-      this.projects.set(id, project);
-    }
-  }
-
-  async updateProjectState(id: string, state: AgentState): Promise<void> {
-    const project = this.projects.get(id);
-    if (project) {
-      project.state = state;
-      project.updatedAt = new Date();
-      this.projects.set(id, project);
-    }
-  }
-
-  // Agent log methods
-  async getProjectLogs(projectId: string): Promise<AgentLog[]> {
-    return Array.from(this.agentLogs.values())
-      .filter(log => log.projectId === projectId)
-      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-  }
-
-  async addAgentLog(insertLog: InsertAgentLog): Promise<AgentLog> {
-    const id = randomUUID();
-    const log: AgentLog = {
-      ...insertLog,
-      id,
-      metadata: insertLog.metadata || null,
-      timestamp: new Date()
-    };
-    this.agentLogs.set(id, log);
-    return log;
-  }
-
-  // Project file methods
-  async getProjectFiles(projectId: string): Promise<ProjectFile[]> {
-    return Array.from(this.projectFiles.values())
-      .filter(file => file.projectId === projectId)
-      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
-  }
-
-  async addProjectFile(insertFile: InsertProjectFile): Promise<ProjectFile> {
-    const id = randomUUID();
-    const file: ProjectFile = {
-      ...insertFile,
-      id,
-      language: insertFile.language || null,
-      createdAt: new Date()
-    };
-    this.projectFiles.set(id, file);
-    return file;
-  }
-
-  async updateProjectFile(id: string, content: string): Promise<void> {
-    const file = this.projectFiles.get(id);
-    if (file) {
-      file.content = content;
-      file.size = content.length;
-      this.projectFiles.set(id, file);
-    }
+// STORAGE picks the backend: "postgres" (the default when DATABASE_URL is set), "sqlite" for one
+// state.sqlite file under STORAGE_DIR, "json" for a directory of JSON files under STORAGE_DIR, or
+// "memory", which loses everything on restart
+function createStorage(): IStorage {
+  const backend = process.env.STORAGE || (process.env.DATABASE_URL ? "postgres" : "memory");
+  switch (backend) {
+    case "postgres":
+      if (!process.env.DATABASE_URL) {
+        throw new Error("STORAGE=postgres needs DATABASE_URL");
+      }
+      return new PgStorage(createDatabase(process.env.DATABASE_URL));
+    case "sqlite":
+      return new SqliteStorage(path.join(process.env.STORAGE_DIR || "./data", "state.sqlite"));
+    case "json":
+      return new JsonFileStorage(process.env.STORAGE_DIR || "./data");
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE backend: ${backend}`);
   }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = createStorage();
+
+// Settles once the backend has loaded what it keeps; the server waits for it before serving
+export const storageReady: Promise<void> = storage instanceof SqliteStorage ? storage.open() : Promise.resolve();
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, json, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, json, integer, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -16,10 +16,12 @@ export const projects = pgTable("projects", {
   name: text("name").notNull(),
   description: text("description").notNull(),
   config: json("config").notNull(), // ProjectConfig JSON
-  status: text("status").notNull().default("pending"), // pending, running, paused, completed, error
+  ownerId: text("owner_id"), // user (or client address) whose runs the project counts against
+  status: text("status").notNull().default("pending"), // pending, queued, running, paused, completed, error
   state: json("state"), // Current agent state
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"), // set while the project sits in the trash
 });
 
 // Agent execution logs
@@ -33,7 +35,7 @@ export const agentLogs = pgTable("agent_logs", {
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
-// Generated files tracking
+// Generated files tracking, one row per path holding its latest revision
 export const projectFiles = pgTable("project_files", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
@@ -41,7 +43,70 @@ export const projectFiles = pgTable("project_files", {
   content: text("content").notNull(),
   size: integer("size").notNull(),
   language: text("language"),
+  agentName: text("agent_name"), // agent that last changed the file
+  revision: integer("revision").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("project_files_project_path_idx").on(table.projectId, table.path),
+]);
+
+// Append-only history of every content a project file has had
+export const fileRevisions = pgTable("file_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  path: text("path").notNull(),
+  revision: integer("revision").notNull(), // counts up from 1 per path
+  content: text("content").notNull(),
+  size: integer("size").notNull(),
+  language: text("language"),
+  agentName: text("agent_name"), // null for edits made outside a run
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("file_revisions_project_path_revision_idx").on(table.projectId, table.path, table.revision),
+]);
+
+// Every pipeline execution of a project, with the revision of each file it left behind
+export const projectRuns = pgTable("project_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  number: integer("number").notNull(), // counts up from 1 per project
+  status: text("status").notNull(), // project status when the run ended
+  files: json("files").notNull(), // Record<path, revision>
+  startedAt: timestamp("started_at").notNull(),
+  finishedAt: timestamp("finished_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("project_runs_project_number_idx").on(table.projectId, table.number),
+]);
+
+// Content-addressed cache of successful LLM responses
+export const llmCache = pgTable("llm_cache", {
+  key: varchar("key").primaryKey(), // sha256 of provider, route, system instruction, prompt and schema
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  response: json("response").notNull(),
+  size: integer("size").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastHitAt: timestamp("last_hit_at").defaultNow().notNull(),
+});
+
+// Pipeline runs waiting for, or holding, one of the server's run slots
+export const runJobs = pgTable("run_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  ownerId: text("owner_id").notNull(),
+  status: text("status").notNull().default("queued"), // queued, running
+  only: json("only"), // agents a rerun is limited to
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+});
+
+// Server-wide model routing for one agent, or for every agent under "default"
+export const agentRoutes = pgTable("agent_routes", {
+  agent: varchar("agent").primaryKey(),
+  routing: json("routing").$type<AgentRouting>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 // Schema exports
@@ -54,6 +119,7 @@ export const insertProjectSchema = createInsertSchema(projects).pick({
   name: true,
   description: true,
   config: true,
+  ownerId: true,
 });
 
 export const insertAgentLogSchema = createInsertSchema(agentLogs).pick({
@@ -70,6 +136,7 @@ export const insertProjectFileSchema = createInsertSchema(projectFiles).pick({
   content: true,
   size: true,
   language: true,
+  agentName: true,
 });
 
 // Type exports
@@ -81,17 +148,120 @@ export type AgentLog = typeof agentLogs.$inferSelect;
 export type InsertAgentLog = z.infer<typeof insertAgentLogSchema>;
 export type ProjectFile = typeof projectFiles.$inferSelect;
 export type InsertProjectFile = z.infer<typeof insertProjectFileSchema>;
+export type FileRevision = typeof fileRevisions.$inferSelect;
+export type ProjectRun = typeof projectRuns.$inferSelect;
+export type InsertProjectRun = Omit<ProjectRun, "id" | "number" | "finishedAt"> & { files: Record<string, number> };
+export type LlmCacheEntry = typeof llmCache.$inferSelect;
+export type InsertLlmCacheEntry = Omit<LlmCacheEntry, "createdAt" | "lastHitAt">;
+export type RunJob = typeof runJobs.$inferSelect;
+export type InsertRunJob = Pick<RunJob, "projectId" | "ownerId"> & { only?: string[] | null };
+export type AgentRoute = typeof agentRoutes.$inferSelect;
 
 // Agent status types
 export const AgentStatus = z.enum(["pending", "running", "completed", "error"]);
 export const LogLevel = z.enum(["info", "warn", "error", "success"]);
-export const ProjectStatus = z.enum(["pending", "running", "paused", "completed", "error"]);
+export const ProjectStatus = z.enum(["pending", "queued", "running", "paused", "stopped", "awaiting-approval", "completed", "error"]);
+
+// Optional spend limits declared under `config.budget`
+export const projectBudgetSchema = z.object({
+  maxTokens: z.number().int().positive().optional(),
+  maxCostUsd: z.number().positive().optional(),
+});
+
+export type ProjectBudget = z.infer<typeof projectBudgetSchema>;
+
+// Model choice and generation parameters for one kind of LLM call
+export const modelRouteSchema = z.object({
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxOutputTokens: z.number().int().positive().optional(),
+  safetySettings: z.array(z.object({ category: z.string(), threshold: z.string() })).optional(),
+});
+
+// Routes for an agent's free-form ("text") and JSON ("structured") calls
+export const agentRoutingSchema = z.object({
+  text: modelRouteSchema.optional(),
+  structured: modelRouteSchema.optional(),
+});
+
+export type ModelRoute = z.infer<typeof modelRouteSchema>;
+export type AgentRouting = z.infer<typeof agentRoutingSchema>;
+
+// Which agents a project runs, under `config.pipeline`: a preset name, or an explicit list whose
+// entries can replace an agent's registered dependencies
+export const pipelineDefinitionSchema = z.union([
+  z.string().min(1),
+  z.object({
+    agents: z.array(z.union([
+      z.string().min(1),
+      z.object({
+        name: z.string().min(1),
+        dependencies: z.array(z.string()).optional(),
+      }),
+    ])).min(1),
+  }),
+]);
+
+export type PipelineDefinition = z.infer<typeof pipelineDefinitionSchema>;
+
+// Query string of GET /api/projects. Statuses may repeat or be comma-separated; `cursor` is the
+// `nextCursor` of the previous page and only valid with the same filters and sort.
+export const projectListQuerySchema = z.object({
+  status: z.preprocess(
+    value => typeof value === "string" ? value.split(",") : value,
+    z.array(ProjectStatus).min(1)
+  ).optional(),
+  ownerId: z.string().min(1).optional(),
+  createdAfter: z.coerce.date().optional(),
+  createdBefore: z.coerce.date().optional(),
+  search: z.string().trim().min(1).optional(), // matched against name and description, ignoring case
+  deleted: z.enum(["exclude", "include", "only"]).default("exclude"),
+  sort: z.enum(["createdAt", "updatedAt", "name"]).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().min(1).optional(),
+});
+
+export type ProjectListQuery = z.infer<typeof projectListQuerySchema>;
+
+// Aggregated LLM usage for one agent (or a whole project)
+export interface AgentUsage {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  latencyMs: number;
+  models: string[];
+}
+
+// One line of a file diff; context lines carry both line numbers
+export interface DiffLine {
+  type: "context" | "added" | "removed";
+  oldLine?: number;
+  newLine?: number;
+  text: string;
+}
+
+// Reviewer feedback from a rejected approval, handed to the agent when it reruns
+export interface ReviewFeedback {
+  feedback: string;
+  previousOutput: any;
+}
 
 // Agent state interface
 export interface AgentState {
   currentAgent: string | null;
+  runningAgents?: string[];
   completedAgents: string[];
   agentProgress: Record<string, number>;
   agentOutputs: Record<string, any>;
   errors: Array<{ agent: string; error: string; timestamp: string }>;
+  usage?: Record<string, AgentUsage>;
+  // Why the run paused itself, e.g. an exhausted budget; cleared when a run starts again
+  pausedReason?: string;
+  // Agents listed under `config.approvals` hold back their dependents until approved
+  awaitingApproval?: string[];
+  approvedAgents?: string[];
+  feedback?: Record<string, ReviewFeedback>;
 }
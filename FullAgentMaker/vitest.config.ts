@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    // Route tests use the app's own storage; keep it in memory whatever the shell has set
+    env: { STORAGE: "memory" },
+    testTimeout: 30_000,
+    hookTimeout: 60_000,
+  },
+});